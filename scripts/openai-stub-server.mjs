@@ -0,0 +1,88 @@
+// Minimal OpenAI-compatible server for exercising the "OpenAI-compatible"
+// provider without a real model. It echoes the last user message back, word
+// by word, as a streamed (or plain JSON) chat completion. Each word counts as
+// one token, so a low max_tokens produces a cut-off answer.
+//
+//   npm run stub:openai            # listens on http://localhost:11435
+//   PORT=9000 npm run stub:openai
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT) || 11435;
+const MODEL = 'stub-echo';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const readJson = (request) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', (chunk) => { body += chunk; });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(body || '{}'));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+const sendJson = (response, status, data) => {
+  response.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(data));
+};
+
+const completionId = () => `chatcmpl-stub-${Date.now()}`;
+
+const handleChat = async (request, response) => {
+  const body = await readJson(request);
+  const lastUser = [...(body.messages ?? [])].reverse().find((message) => message.role === 'user');
+  const words = `You said: ${lastUser?.content ?? '(nothing)'}`.split(/(?<= )/);
+  const maxTokens = body.max_tokens ?? Infinity;
+  const reply = words.slice(0, maxTokens).join('');
+  const finishReason = words.length > maxTokens ? 'length' : 'stop';
+  const id = completionId();
+
+  if (!body.stream) {
+    sendJson(response, 200, {
+      id,
+      object: 'chat.completion',
+      model: body.model ?? MODEL,
+      choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: finishReason }],
+    });
+    return;
+  }
+
+  response.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  const send = (data) => response.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+  for (const word of words.slice(0, maxTokens)) {
+    send({ id, object: 'chat.completion.chunk', model: body.model ?? MODEL, choices: [{ index: 0, delta: { content: word }, finish_reason: null }] });
+    await new Promise((resolve) => setTimeout(resolve, 30));
+  }
+  send({ id, object: 'chat.completion.chunk', model: body.model ?? MODEL, choices: [{ index: 0, delta: {}, finish_reason: finishReason }] });
+  send('[DONE]');
+  response.end();
+};
+
+const server = createServer((request, response) => {
+  const path = new URL(request.url, `http://${request.headers.host}`).pathname;
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS);
+    response.end();
+  } else if (request.method === 'GET' && path === '/v1/models') {
+    sendJson(response, 200, { object: 'list', data: [{ id: MODEL, object: 'model', owned_by: 'stub' }] });
+  } else if (request.method === 'POST' && path === '/v1/chat/completions') {
+    handleChat(request, response).catch((error) => {
+      sendJson(response, 400, { error: { message: `Invalid request: ${error.message}` } });
+    });
+  } else {
+    sendJson(response, 404, { error: { message: `No route for ${request.method} ${path}` } });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`OpenAI-compatible stub listening on http://localhost:${PORT}/v1`);
+});
@@ -0,0 +1,175 @@
+// Optional server for team deployments: it holds the provider API keys, so
+// they never reach the browser, and relays chat requests to the providers.
+// It also serves the built app, keeping everything on one origin; no CORS
+// headers are sent, so other sites cannot borrow the keys.
+//
+//   npm run build && GEMINI_API_KEY=... npm run server    # http://localhost:8787
+//
+// During development run it next to `npm run dev`, which proxies /api to it.
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import { listProviders, type AIProvider, type ChatProvider } from '@/lib/chat/providers';
+import { DEFAULT_COMPATIBLE_BASE_URL } from '@/lib/chat/providers/openai-compatible';
+import { PROXY_CHAT_URL, type ProxyChatRequest } from '@/lib/chat/proxy';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DIST_DIR = path.resolve(import.meta.dirname, '../dist');
+// Document excerpts and history are well under this; anything bigger is not from the app
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+// Model IDs as providers name them, e.g. gemini-2.0-flash, llama3:8b or org/model on a compatible server;
+// anything else could bend the upstream URL that carries the server's key
+const MODEL_ID = /^\w[\w.:/-]*$/;
+
+const API_KEY_ENV: Partial<Record<AIProvider, string>> = {
+  gemini: 'GEMINI_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  'openai-compatible': 'OPENAI_COMPATIBLE_API_KEY',
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.wasm': 'application/wasm',
+  '.onnx': 'application/octet-stream',
+  '.txt': 'text/plain',
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const sendError = (response: ServerResponse, status: number, message: string) => {
+  // Same shape as the providers' own errors, so the app reports both alike
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify({ error: { message } }));
+};
+
+const readJson = async (request: IncomingMessage): Promise<unknown> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+};
+
+const parseChatRequest = (data: unknown): { provider: ChatProvider; request: ProxyChatRequest } => {
+  const request = data as ProxyChatRequest;
+  const provider = listProviders().find((candidate) => candidate.id === request?.provider);
+  if (!provider) throw new HttpError(400, 'Unknown provider');
+  if (typeof request.model !== 'string' || !request.model) throw new HttpError(400, 'A model is required');
+  if (!MODEL_ID.test(request.model)) throw new HttpError(400, 'Invalid model');
+  if (typeof request.systemPrompt !== 'string' || !Array.isArray(request.history)) {
+    throw new HttpError(400, 'systemPrompt and history are required');
+  }
+  return { provider, request };
+};
+
+const handleChat = async (request: IncomingMessage, response: ServerResponse) => {
+  const { provider, request: chatRequest } = parseChatRequest(await readJson(request));
+
+  const apiKey = process.env[API_KEY_ENV[provider.id]] ?? '';
+  const baseUrl = provider.id === 'openai-compatible'
+    ? process.env.OPENAI_COMPATIBLE_BASE_URL ?? DEFAULT_COMPATIBLE_BASE_URL
+    : undefined;
+  if (!apiKey && provider.apiKey.required) {
+    // Reported like a missing key, which is what it is, rather than as an outage worth retrying
+    throw new HttpError(401, `${provider.name} is not configured on this server`);
+  }
+
+  const { provider: _provider, ...params } = chatRequest;
+  const upstream = provider.buildRequest(params, { apiKey, baseUrl });
+
+  // Stop paying for tokens nobody will read when the user presses Stop
+  const controller = new AbortController();
+  response.on('close', () => controller.abort());
+
+  const upstreamResponse = await fetch(upstream.url, {
+    method: 'POST',
+    headers: upstream.headers,
+    body: JSON.stringify(upstream.body),
+    signal: controller.signal,
+  });
+
+  // Relay status and body untouched; the app already knows how to read them
+  response.writeHead(upstreamResponse.status, {
+    'Content-Type': upstreamResponse.headers.get('Content-Type') ?? 'application/json',
+    'Cache-Control': 'no-cache',
+  });
+  if (!upstreamResponse.body) {
+    response.end();
+    return;
+  }
+  await pipeline(Readable.fromWeb(upstreamResponse.body as WebReadableStream), response).catch(() => {
+    // The user pressed Stop or the provider dropped the connection; nothing left to send
+  });
+};
+
+const serveStatic = async (pathname: string, response: ServerResponse) => {
+  const filePath = path.join(DIST_DIR, path.normalize(pathname));
+  if (!filePath.startsWith(DIST_DIR)) throw new HttpError(404, 'Not found');
+
+  let file: Buffer;
+  let type = CONTENT_TYPES[path.extname(filePath)];
+  try {
+    file = await readFile(filePath);
+  } catch {
+    if (path.extname(pathname)) throw new HttpError(404, 'Not found');
+    // The root and client-side routes all load the app shell
+    file = await readFile(path.join(DIST_DIR, 'index.html')).catch(() => {
+      throw new HttpError(404, 'App is not built; run `npm run build` first');
+    });
+    type = CONTENT_TYPES['.html'];
+  }
+  response.writeHead(200, { 'Content-Type': type ?? 'application/octet-stream' });
+  response.end(file);
+};
+
+const server = createServer(async (request, response) => {
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+  try {
+    if (pathname === PROXY_CHAT_URL) {
+      if (request.method !== 'POST') throw new HttpError(405, 'Use POST');
+      await handleChat(request, response);
+    } else if (request.method === 'GET' || request.method === 'HEAD') {
+      await serveStatic(pathname, response);
+    } else {
+      throw new HttpError(405, 'Method not allowed');
+    }
+  } catch (error) {
+    if (response.headersSent) {
+      response.destroy();
+    } else if (error instanceof HttpError) {
+      sendError(response, error.status, error.message);
+    } else {
+      console.error(error);
+      sendError(response, 502, 'Could not reach the provider');
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  const configured = listProviders().filter((provider) => process.env[API_KEY_ENV[provider.id]]);
+  console.log(`Listening on http://localhost:${PORT}`);
+  console.log(`Keys configured for: ${configured.map((provider) => provider.name).join(', ') || 'none'}`);
+});
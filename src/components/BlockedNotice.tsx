@@ -0,0 +1,27 @@
+import { ShieldAlert } from 'lucide-react';
+import type { ChatProvider, ContentBlock } from '@/lib/chat/providers';
+
+interface BlockedNoticeProps {
+  blocked: ContentBlock;
+  provider: ChatProvider;
+}
+
+export const BlockedNotice = ({ blocked, provider }: BlockedNoticeProps) => (
+  <div className="mt-2 rounded-md border border-destructive/40 bg-destructive/10 p-2 text-xs">
+    <p className="flex items-center font-medium text-destructive">
+      <ShieldAlert className="w-4 h-4 mr-1" />
+      {blocked.stage === 'prompt'
+        ? `${provider.name} safety filters blocked the question`
+        : `${provider.name} safety filters stopped the answer`}
+    </p>
+    <p className="mt-1 opacity-80">
+      {blocked.categories.length > 0 ? `Flagged: ${blocked.categories.join(', ')}` : `Reason: ${blocked.reason}`}
+    </p>
+    <p className="mt-1 opacity-80">
+      {/* Only some providers let the user loosen their filters */}
+      {provider.safetyCategories
+        ? 'Try rephrasing, or loosen the flagged category under Safety filters in the settings.'
+        : 'Try rephrasing the question.'}
+    </p>
+  </div>
+);
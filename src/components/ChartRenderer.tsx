@@ -1,13 +1,5 @@
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, LineChart, Line, PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
-
-interface ChartData {
-  type: 'bar' | 'line' | 'pie';
-  title?: string;
-  data: any[];
-  xKey?: string;
-  yKey?: string;
-  dataKey?: string;
-}
+import type { ChartData } from '@/lib/chat/types';
 
 interface ChartRendererProps {
   chartData: ChartData;
@@ -1,49 +1,138 @@
-import { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Waves, Settings } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, Bot, User, Waves, Settings, Square, StepForward } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
+import { BlockedNotice } from './BlockedNotice';
 import { ChartRenderer } from './ChartRenderer';
-
-interface Message {
-  id: string;
-  text: string;
-  sender: 'user' | 'ai';
-  timestamp: Date;
-  chartData?: {
-    type: 'bar' | 'line' | 'pie';
-    title?: string;
-    data: any[];
-    xKey?: string;
-    yKey?: string;
-    dataKey?: string;
-  };
-}
+import { FallbackSettings } from './FallbackSettings';
+import { GenerationSettings } from './GenerationSettings';
+import { ProviderSettings } from './ProviderSettings';
+import { SafetySettings } from './SafetySettings';
+import { ToolSteps } from './ToolSteps';
+import { UsageSummary } from './UsageSummary';
+import { VaultUnlock } from './VaultUnlock';
+import { useApiKeys, type KeyStorageMode } from '@/hooks/use-api-keys';
+import { useFallbackChain } from '@/hooks/use-fallback-chain';
+import { useGenerationSettings } from '@/hooks/use-generation-settings';
+import { usePriceTable } from '@/hooks/use-price-table';
+import { useSafetySettings } from '@/hooks/use-safety-settings';
+import { useUsageLedger } from '@/hooks/use-usage-ledger';
+import { extractChart, getDisplayText } from '@/lib/chat/charts';
+import { createDocumentTools } from '@/lib/chat/document-tools';
+import { MAX_ATTEMPTS, sendChat, type ChatResult, type RetryNotice } from '@/lib/chat/engine';
+import { ChatError, ERROR_HELP } from '@/lib/chat/errors';
+import { buildHistory, getHistoryTokenBudget } from '@/lib/chat/history';
+import { buildSystemPrompt, buildToolSystemPrompt, CONTINUE_PROMPT } from '@/lib/chat/prompt';
+import { PROXY_CHAT_URL } from '@/lib/chat/proxy';
+import { canFallBack } from '@/lib/chat/fallback';
+import { addUsage, estimateCost, formatCost, formatTokens, type ModelPrice } from '@/lib/chat/pricing';
+import {
+  DEFAULT_PROVIDER,
+  getProvider,
+  listProviders,
+  type AIProvider,
+  type ChatProvider,
+  type TokenUsage,
+} from '@/lib/chat/providers';
+import type { ChartData, GenerationRecord, Message, ToolStep } from '@/lib/chat/types';
+import type { ParsedDocument } from '@/lib/pdf/document';
+import { buildDocumentContext, createDocumentRetriever } from '@/lib/retrieval/context';
+import { createLocalEmbedder } from '@/lib/retrieval/local-embedder';
+import { createSemanticIndex, type SemanticIndex } from '@/lib/retrieval/semantic';
+import { createVectorStore, hashText } from '@/lib/retrieval/vector-store';
 
 interface ChatInterfaceProps {
-  pdfText: string;
-  fileName: string;
+  parsedDocument: ParsedDocument;
 }
 
-type AIProvider = 'openai' | 'gemini';
+// How document chunks are embedded for semantic search
+type RetrievalMode = 'local' | 'provider';
+
+// Where provider API keys live: this browser, or the optional server (server/index.ts)
+type KeySource = 'browser' | 'server';
+
+// Team deployments build with VITE_SERVER_MANAGED_KEYS=true so users start without a key prompt
+const DEFAULT_KEY_SOURCE: KeySource = import.meta.env.VITE_SERVER_MANAGED_KEYS === 'true' ? 'server' : 'browser';
+
+const vectorStore = createVectorStore();
+
+const KEY_STORAGE_NOTES: Record<KeyStorageMode, string> = {
+  session: 'It is kept only for this tab; use Manage keys to save it.',
+  vault: 'It is encrypted with your passphrase before being saved in this browser.',
+  plaintext: 'It is saved unencrypted in this browser.',
+};
 
-export const ChatInterface = ({ pdfText, fileName }: ChatInterfaceProps) => {
+const formatUsage = (usage: TokenUsage, price: ModelPrice | undefined) => {
+  const cost = estimateCost(usage, price);
+  const tokens = `${formatTokens(usage.promptTokens)} prompt + ${formatTokens(usage.completionTokens)} completion tokens`;
+  return cost === undefined ? tokens : `${tokens} · ${formatCost(cost)}`;
+};
+
+const formatGeneration = ({ provider, model, temperature, maxOutputTokens, topP }: GenerationRecord) =>
+  `${getProvider(provider).name} · ${model} · temperature ${temperature} · top-p ${topP} · max ${maxOutputTokens} tokens`;
+
+export const ChatInterface = ({ parsedDocument }: ChatInterfaceProps) => {
+  const { fileName, pageCount } = parsedDocument.metadata;
+  // Pages whose text was recognized from a scan, which may contain misread words
+  const ocrPages = parsedDocument.pages.filter((page) => page.ocr).map((page) => page.number);
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
-      text: `Hello! I've processed "${fileName}" and I'm ready to answer questions about it. What would you like to know?`,
+      text: `Hello! I've processed "${fileName}" and I'm ready to answer questions about it.${
+        ocrPages.length > 0
+          ? ` Page${ocrPages.length > 1 ? 's' : ''} ${ocrPages.join(', ')} had no text layer and ${ocrPages.length > 1 ? 'were' : 'was'} read with OCR, so some words may be misread.`
+          : ''
+      } What would you like to know?`,
       sender: 'ai',
       timestamp: new Date(),
     },
   ]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [apiKey, setApiKey] = useState(localStorage.getItem('ai_api_key') || '');
-  const [aiProvider, setAiProvider] = useState<AIProvider>((localStorage.getItem('ai_provider') as AIProvider) || 'gemini');
+  const {
+    apiKeys,
+    setApiKey,
+    removeApiKey,
+    storageMode,
+    locked,
+    unlock,
+    lock,
+    changeStorageMode,
+    resetVault,
+  } = useApiKeys();
+  const [aiProvider, setAiProvider] = useState<AIProvider>((localStorage.getItem('ai_provider') as AIProvider) || DEFAULT_PROVIDER);
+  const [keySource, setKeySource] = useState<KeySource>((localStorage.getItem('key_source') as KeySource) || DEFAULT_KEY_SOURCE);
+  const serverManaged = keySource === 'server';
+  const apiKey = serverManaged ? '' : apiKeys[aiProvider] || '';
+  const [baseUrl, setBaseUrl] = useState(localStorage.getItem('compatible_base_url') || '');
+  const [retrievalMode, setRetrievalMode] = useState<RetrievalMode>((localStorage.getItem('retrieval_mode') as RetrievalMode) || 'local');
+  // Let models that support it search and read the document themselves
+  const [toolsEnabled, setToolsEnabled] = useState(localStorage.getItem('document_tools') !== 'false');
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
+  const provider = getProvider(aiProvider);
+  const { settings: generationSettings, updateSettings: updateGenerationSettings, resetParams } = useGenerationSettings(aiProvider);
+  const { chain: fallbackChain, updateChain: updateFallbackChain } = useFallbackChain();
+  const { safetySettingsFor, setThreshold, resetSafetySettings } = useSafetySettings();
+  // Self-hosted servers have no default model, so the user names one
+  const model = generationSettings.model || provider.defaultModel;
+  const connection = { apiKey, baseUrl: baseUrl || provider.baseUrl?.default };
+  const canChat = (serverManaged || !provider.apiKey.required || Boolean(apiKey)) && Boolean(model);
+  const retriever = useMemo(() => createDocumentRetriever(parsedDocument), [parsedDocument]);
+  const [semanticIndex, setSemanticIndex] = useState<SemanticIndex | null>(null);
+  const documentTools = useMemo(
+    () => createDocumentTools({ document: parsedDocument, retriever, semanticIndex }),
+    [parsedDocument, retriever, semanticIndex],
+  );
+  // Identifies the document in the usage ledger and the embeddings cache
+  const [documentHash, setDocumentHash] = useState('');
+  const { entries: usageEntries, recordUsage } = useUsageLedger();
+  const { prices, setPrice, removePrice, resetPrices } = usePriceTable();
 
   useEffect(() => {
     // Scroll to bottom when new messages are added
@@ -55,118 +144,140 @@ export const ChatInterface = ({ pdfText, fileName }: ChatInterfaceProps) => {
     }
   }, [messages]);
 
-  const callOpenAI = async (question: string): Promise<string> => {
-    if (!apiKey) {
-      throw new Error('OpenAI API key is required');
-    }
+  useEffect(() => {
+    // Unmounting covers "New Document" in Index as well as navigating away
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
-    const systemPrompt = `You are a helpful AI assistant that answers questions about PDF documents. 
-    
-The user has uploaded a PDF document with the following content:
-${pdfText.substring(0, 12000)}...
-
-Please analyze this content carefully and answer questions based on it. Provide detailed, accurate responses with specific references to the document content when possible. If the answer isn't clearly stated in the document, let the user know and provide your best interpretation based on the available information.
-
-CHART GENERATION: When the user asks for charts, graphs, or data visualization, you can generate charts by including a JSON block in your response with the following format:
-\`\`\`chart
-{
-  "type": "bar|line|pie",
-  "title": "Chart Title",
-  "data": [{"name": "Item1", "value": 100}, {"name": "Item2", "value": 200}],
-  "xKey": "name",
-  "yKey": "value",
-  "dataKey": "value"
-}
-\`\`\`
-
-For pie charts, use "dataKey" instead of "yKey". Always extract real data from the PDF content when creating charts.`;
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: question },
-        ],
-        max_tokens: 1000,
-        temperature: 0.7,
-      }),
+  useEffect(() => {
+    let cancelled = false;
+    hashText(parsedDocument.text).then((hash) => {
+      if (!cancelled) setDocumentHash(hash);
     });
+    return () => {
+      cancelled = true;
+    };
+  }, [parsedDocument.text]);
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`OpenAI API error (${response.status}): ${errorData.error?.message || response.statusText}`);
-    }
+  // Local embeddings do not depend on the chat provider, so switching it or typing a key must not rebuild them
+  const embeddingProvider = retrievalMode === 'provider' ? aiProvider : null;
+  const embeddingApiKey = retrievalMode === 'provider' ? apiKey : null;
 
-    const data = await response.json();
-    return data.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
-  };
+  useEffect(() => {
+    setSemanticIndex(null);
+    if (!documentHash || (embeddingProvider && !embeddingApiKey)) return;
+
+    // Keyword search covers the gap until the embeddings are ready, or if they fail to load
+    let cancelled = false;
+    const providerEmbedder = embeddingProvider && getProvider(embeddingProvider).createEmbedder;
+    if (embeddingProvider && !providerEmbedder) return;
+    const embedder = embeddingProvider ? providerEmbedder(embeddingApiKey) : createLocalEmbedder();
+    createSemanticIndex({ chunks: retriever.chunks, documentHash, embedder, store: vectorStore })
+      .then((index) => {
+        if (!cancelled) setSemanticIndex(index);
+      })
+      .catch((error) => console.warn('Semantic index unavailable, using keyword retrieval only:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentHash, retriever, embeddingProvider, embeddingApiKey]);
 
-  const callGemini = async (question: string): Promise<string> => {
-    if (!apiKey) {
-      throw new Error('Gemini API key is required');
-    }
+  const connectionFor = (id: AIProvider) => ({
+    apiKey: serverManaged ? '' : apiKeys[id] || '',
+    baseUrl: baseUrl || getProvider(id).baseUrl?.default,
+  });
 
-    const systemPrompt = `You are a helpful AI assistant that answers questions about PDF documents. 
-    
-The user has uploaded a PDF document with the following content:
-${pdfText.substring(0, 12000)}...
-
-Please analyze this content carefully and answer questions based on it. Provide detailed, accurate responses with specific references to the document content when possible. If the answer isn't clearly stated in the document, let the user know and provide your best interpretation based on the available information.
-
-CHART GENERATION: When the user asks for charts, graphs, or data visualization, you can generate charts by including a JSON block in your response with the following format:
-\`\`\`chart
-{
-  "type": "bar|line|pie",
-  "title": "Chart Title", 
-  "data": [{"name": "Item1", "value": 100}, {"name": "Item2", "value": 200}],
-  "xKey": "name",
-  "yKey": "value",
-  "dataKey": "value"
-}
-\`\`\`
-
-For pie charts, use "dataKey" instead of "yKey". Always extract real data from the PDF content when creating charts.
-
-User question: ${question}`;
-
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [{
-          parts: [{
-            text: systemPrompt
-          }]
-        }],
-        generationConfig: {
-          temperature: 0.7,
-          maxOutputTokens: 1000,
-        }
-      }),
-    });
+  const isUsable = (id: AIProvider) => serverManaged || !getProvider(id).apiKey.required || Boolean(apiKeys[id]);
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`Gemini API error (${response.status}): ${errorData.error?.message || response.statusText}`);
-    }
+  // The configured fallbacks that can actually be used, each with the primary's sampling parameters
+  const fallbackTargets = (primary: GenerationRecord): GenerationRecord[] =>
+    fallbackChain
+      .map((target) => ({ ...primary, provider: target.provider, model: target.model || getProvider(target.provider).defaultModel }))
+      .filter((target) => target.model && !(target.provider === primary.provider && target.model === primary.model))
+      .filter((target) => isUsable(target.provider));
 
-    const data = await response.json();
-    return data.candidates?.[0]?.content?.parts?.[0]?.text || 'Sorry, I could not generate a response.';
+  const announceRetry = (target: ChatProvider) => ({ error, attempt, delayMs }: RetryNotice) => {
+    toast({
+      title: ERROR_HELP[error.kind].title,
+      description: `Trying ${target.name} again in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1} of ${MAX_ATTEMPTS}).`,
+    });
   };
 
-  const callAI = async (question: string): Promise<string> => {
-    if (aiProvider === 'openai') {
-      return callOpenAI(question);
-    } else {
-      return callGemini(question);
+  const usesTools = (id: AIProvider) => toolsEnabled && getProvider(id).capabilities.toolCalling;
+
+  /**
+   * Answers with the first target that works. Rate limits and outages fall
+   * through to the next target, as long as nothing has been streamed yet.
+   * Targets that can call tools look the document up themselves; the others
+   * get excerpts picked by retrieval.
+   */
+  const callAI = async (
+    conversation: Message[],
+    targets: GenerationRecord[],
+    onToken: (token: string) => void,
+    onFallback: (target: GenerationRecord) => void,
+    onToolStep: (step: ToolStep) => void,
+    signal: AbortSignal,
+  ): Promise<ChatResult> => {
+    const pickExcerpts = async () => {
+      // Include the previous question so follow-ups like "what about the second one?" still match
+      // The continue instruction says nothing about the document, so it is left out
+      const query = conversation
+        .filter((message) => message.sender === 'user' && message.text !== CONTINUE_PROMPT)
+        .slice(-2)
+        .map((message) => message.text)
+        .join('\n');
+      const semanticResults = semanticIndex
+        ? await semanticIndex.search(query).catch((error) => {
+            console.warn('Semantic search failed, using keyword retrieval only:', error);
+            return [];
+          })
+        : [];
+      return buildDocumentContext(retriever, query, { semanticResults });
+    };
+    // Picked once, and only if a target without tools is reached
+    let documentContext: Promise<string> | undefined;
+
+    let streamed = false;
+    for (const [index, target] of targets.entries()) {
+      const targetProvider = getProvider(target.provider);
+      const next = targets[index + 1];
+      const tools = usesTools(target.provider) ? documentTools : undefined;
+      try {
+        return await sendChat(targetProvider, {
+          model: target.model,
+          systemPrompt: tools
+            ? buildToolSystemPrompt(pageCount)
+            : buildSystemPrompt(await (documentContext ??= pickExcerpts())),
+          history: buildHistory(conversation, getHistoryTokenBudget(targetProvider, target.model, target.maxOutputTokens)),
+          temperature: target.temperature,
+          maxOutputTokens: target.maxOutputTokens,
+          topP: target.topP,
+          safetySettings: safetySettingsFor(target.provider),
+        }, {
+          ...connectionFor(target.provider),
+          onToken: (token) => {
+            streamed = true;
+            onToken(token);
+          },
+          signal,
+          tools,
+          onToolStep,
+          proxyUrl: serverManaged ? PROXY_CHAT_URL : undefined,
+          onRetry: announceRetry(targetProvider),
+          // Falling through beats waiting out a rate limit
+          shouldRetry: next ? (error) => !canFallBack(error) : undefined,
+        });
+      } catch (error) {
+        if (!next || streamed || signal.aborted || !canFallBack(error)) throw error;
+        console.warn(`${targetProvider.name} failed, falling back to ${getProvider(next.provider).name}:`, error);
+        toast({
+          title: `${targetProvider.name} is unavailable`,
+          description: `Answering with ${getProvider(next.provider).name} (${next.model}) instead.`,
+        });
+        onFallback(next);
+      }
     }
   };
 
@@ -175,10 +286,19 @@ User question: ${question}`;
     
     if (!inputValue.trim()) return;
     
-    if (!apiKey) {
+    if (!model) {
+      toast({
+        title: "Model Required",
+        description: `Enter the name of the model your ${provider.name} should use.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!serverManaged && !apiKey && provider.apiKey.required) {
       toast({
         title: "API Key Required",
-        description: "Please enter your OpenAI API key to start chatting.",
+        description: `Please enter your ${provider.name} API key to start chatting.`,
         variant: "destructive",
       });
       return;
@@ -191,66 +311,197 @@ User question: ${question}`;
       timestamp: new Date(),
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    const generation: GenerationRecord = {
+      provider: aiProvider,
+      model,
+      temperature: generationSettings.temperature,
+      maxOutputTokens: generationSettings.maxOutputTokens,
+      topP: generationSettings.topP,
+    };
+
+    // The answer streams into this message as tokens arrive
+    const aiMessage: Message = {
+      id: (Date.now() + 1).toString(),
+      text: '',
+      sender: 'ai',
+      timestamp: new Date(),
+      isStreaming: true,
+      generation,
+    };
+
+    setMessages(prev => [...prev, userMessage, aiMessage]);
     setInputValue('');
+    await streamAnswer(aiMessage.id, [...messages, userMessage], [generation, ...fallbackTargets(generation)]);
+  };
+
+  /**
+   * Streams an answer into an existing message. When continuing a cut-off
+   * answer, previousText is what the message already holds; the continuation
+   * is appended and charts are parsed from the merged text.
+   */
+  const streamAnswer = async (
+    aiMessageId: string,
+    conversation: Message[],
+    targets: GenerationRecord[],
+    previousText = '',
+  ) => {
+    const updateAiMessage = (update: (message: Message) => Message) => {
+      setMessages(prev => prev.map(message => (message.id === aiMessageId ? update(message) : message)));
+    };
+
     setIsLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let partialText = '';
+    // A chart drawn with the create_chart tool, shown unless the text has its own
+    let toolChart: ChartData | undefined;
 
     try {
-      const aiResponse = await callAI(inputValue);
-      
-      // Extract chart data if present
-      const chartRegex = /```chart\n([\s\S]*?)\n```/;
-      const chartMatch = aiResponse.match(chartRegex);
-      let chartData = null;
-      let cleanedText = aiResponse;
-      
-      if (chartMatch) {
-        try {
-          chartData = JSON.parse(chartMatch[1]);
-          cleanedText = aiResponse.replace(chartRegex, '').trim();
-        } catch (e) {
-          console.error('Failed to parse chart data:', e);
-        }
+      let servedBy = targets[0];
+      const { text: aiResponse, usage, finishReason, blocked } = await callAI(
+        conversation,
+        targets,
+        (token) => {
+          partialText += token;
+          updateAiMessage(message => ({ ...message, text: message.text + token }));
+        },
+        // Credit the answer to the provider that actually serves it
+        (target) => {
+          servedBy = target;
+          toolChart = undefined;
+          // Steps the failed provider took are no longer part of this answer
+          updateAiMessage(message => ({ ...message, generation: target, toolSteps: undefined }));
+        },
+        (step) => {
+          toolChart = step.chartData ?? toolChart;
+          updateAiMessage(message => ({ ...message, toolSteps: [...(message.toolSteps ?? []), step] }));
+        },
+        abortController.signal,
+      );
+
+      const fullText = previousText ? previousText + partialText : aiResponse;
+      if (blocked) {
+        // Whatever arrived before the filter stepped in stays, raw, above the notice
+        updateAiMessage(message => ({ ...message, text: fullText, usage: addUsage(message.usage, usage), isStreaming: false, blocked }));
+      } else if (finishReason === 'length') {
+        // A chart cut in half would fail to parse, so wait for the continuation
+        updateAiMessage(message => ({
+          ...message,
+          text: fullText,
+          chartData: toolChart ?? message.chartData,
+          usage: addUsage(message.usage, usage),
+          isStreaming: false,
+          truncated: true,
+        }));
+      } else {
+        // Chart fences are only parsed once the whole answer is in
+        const { text, chartData } = extractChart(fullText);
+        updateAiMessage(message => ({
+          ...message,
+          text,
+          chartData: chartData ?? toolChart ?? message.chartData,
+          usage: addUsage(message.usage, usage),
+          isStreaming: false,
+        }));
+      }
+      if (usage) {
+        recordUsage({ documentId: documentHash || fileName, provider: servedBy.provider, model: servedBy.model, usage });
       }
-      
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        text: cleanedText,
-        sender: 'ai',
-        timestamp: new Date(),
-        chartData,
-      };
-      
-      setMessages(prev => [...prev, aiMessage]);
     } catch (error) {
-      console.error(`Error calling ${aiProvider.toUpperCase()}:`, error);
+      if (abortController.signal.aborted) {
+        // Stopped by the user: keep whatever arrived so far
+        if (previousText || partialText) {
+          const { text, chartData } = extractChart(previousText + partialText);
+          updateAiMessage(message => ({ ...message, text, chartData: chartData ?? toolChart, isStreaming: false, interrupted: true }));
+        } else {
+          setMessages(prev => prev.filter(message => message.id !== aiMessageId));
+        }
+        return;
+      }
+
+      console.error(`Error calling ${getProvider(targets[0].provider).name}:`, error);
+      if (previousText) {
+        // A failed continuation leaves the cut-off answer as it was, ready to try again
+        updateAiMessage(message => ({ ...message, text: previousText, isStreaming: false, truncated: true }));
+      } else {
+        setMessages(prev => prev.filter(message => message.id !== aiMessageId));
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      const help = error instanceof ChatError ? ERROR_HELP[error.kind] : undefined;
       toast({
-        title: "AI Error",
-        description: errorMessage,
+        title: help?.title ?? "AI Error",
+        description: help ? (
+          <>
+            <p>{errorMessage}</p>
+            <p className="mt-1">{help.hint}</p>
+          </>
+        ) : errorMessage,
         variant: "destructive",
       });
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
     }
   };
 
+  const continueAnswer = async (truncatedMessage: Message) => {
+    const index = messages.findIndex(message => message.id === truncatedMessage.id);
+    const continueRequest: Message = {
+      id: Date.now().toString(),
+      text: CONTINUE_PROMPT,
+      sender: 'user',
+      timestamp: new Date(),
+    };
+
+    setMessages(prev => prev.map(message => (
+      message.id === truncatedMessage.id ? { ...message, isStreaming: true, truncated: false } : message
+    )));
+    // The same model resumes; the instruction is sent but never shown
+    await streamAnswer(
+      truncatedMessage.id,
+      [...messages.slice(0, index + 1), continueRequest],
+      [truncatedMessage.generation],
+      truncatedMessage.text,
+    );
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleApiKeyChange = (value: string) => {
-    setApiKey(value);
-    localStorage.setItem('ai_api_key', value);
+    setApiKey(aiProvider, value);
   };
 
   const handleProviderChange = (provider: AIProvider) => {
     setAiProvider(provider);
     localStorage.setItem('ai_provider', provider);
-    // Reset API key when switching providers since they use different keys
-    setApiKey('');
-    localStorage.removeItem('ai_api_key');
+  };
+
+  const handleKeySourceChange = (source: KeySource) => {
+    setKeySource(source);
+    localStorage.setItem('key_source', source);
+  };
+
+  const handleBaseUrlChange = (value: string) => {
+    setBaseUrl(value);
+    localStorage.setItem('compatible_base_url', value);
+  };
+
+  const handleRetrievalModeChange = (mode: RetrievalMode) => {
+    setRetrievalMode(mode);
+    localStorage.setItem('retrieval_mode', mode);
+  };
+
+  const handleToolsEnabledChange = (enabled: boolean) => {
+    setToolsEnabled(enabled);
+    localStorage.setItem('document_tools', String(enabled));
   };
 
   const resetApiKey = () => {
-    setApiKey('');
-    localStorage.removeItem('ai_api_key');
+    removeApiKey(aiProvider);
     toast({
       title: "API Key Reset",
       description: "You can now enter a new API key.",
@@ -261,72 +512,169 @@ User question: ${question}`;
     <div className="flex flex-col h-full max-w-4xl mx-auto">
       {/* API Provider Selection */}
       <div className="ocean-card p-4 mb-4">
-        <div className="flex items-center space-x-3 mb-3">
-          <Settings className="w-5 h-5 text-primary" />
-          <h3 className="font-semibold">AI Provider</h3>
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center space-x-3">
+            <Settings className="w-5 h-5 text-primary" />
+            <h3 className="font-semibold">AI Provider</h3>
+          </div>
+          {!serverManaged && (
+            <ProviderSettings
+              apiKeys={apiKeys}
+              baseUrl={baseUrl}
+              onApiKeyChange={setApiKey}
+              onApiKeyRemove={removeApiKey}
+              storageMode={storageMode}
+              locked={locked}
+              onStorageModeChange={changeStorageMode}
+              onLock={lock}
+            />
+          )}
         </div>
         <Select value={aiProvider} onValueChange={handleProviderChange}>
           <SelectTrigger className="w-full">
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="gemini">Google Gemini (Free)</SelectItem>
-            <SelectItem value="openai">OpenAI GPT-4o</SelectItem>
+            {listProviders().map((option) => (
+              <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
         <p className="text-xs text-muted-foreground mt-2">
           Gemini offers free API access with generous limits
         </p>
+        <div className="mt-4 space-y-2">
+          <p className="text-sm font-medium">API Keys</p>
+          <Select value={keySource} onValueChange={handleKeySourceChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="browser">My own keys, in this browser</SelectItem>
+              <SelectItem value="server">Managed by the server</SelectItem>
+            </SelectContent>
+          </Select>
+          {serverManaged && (
+            <p className="text-xs text-muted-foreground">
+              Questions go through this app's server, which adds the key. The server must have a key set for {provider.name}.
+            </p>
+          )}
+        </div>
+        {provider.baseUrl && !serverManaged && (
+          <div className="mt-4 space-y-2">
+            <p className="text-sm font-medium">Server</p>
+            <Input
+              placeholder={provider.baseUrl.placeholder}
+              value={baseUrl}
+              onChange={(e) => handleBaseUrlChange(e.target.value)}
+              aria-label="Base URL"
+            />
+            {/* The key lives in the vault, so it can only be entered once the vault is unlocked */}
+            {!locked && (
+              <Input
+                type="password"
+                placeholder={provider.apiKey.placeholder}
+                value={apiKey}
+                onChange={(e) => handleApiKeyChange(e.target.value)}
+                aria-label={provider.apiKey.prompt}
+              />
+            )}
+            <p className="text-xs text-muted-foreground">
+              Requests go straight from your browser to this server, so your documents stay on your network.
+              The server must allow cross-origin requests from this page (for Ollama, set <code>OLLAMA_ORIGINS</code>).
+            </p>
+          </div>
+        )}
+        <GenerationSettings
+          key={aiProvider}
+          provider={provider}
+          connection={serverManaged ? null : connection}
+          settings={generationSettings}
+          onChange={updateGenerationSettings}
+          onReset={resetParams}
+        />
+        {provider.safetyCategories && (
+          <SafetySettings
+            provider={provider}
+            settings={safetySettingsFor(aiProvider)}
+            onChange={(category, threshold) => setThreshold(aiProvider, category, threshold)}
+            onReset={() => resetSafetySettings(aiProvider)}
+          />
+        )}
+        <FallbackSettings
+          primary={provider}
+          chain={fallbackChain}
+          onChange={updateFallbackChain}
+          isUsable={isUsable}
+        />
+        <div className="mt-4 space-y-2">
+          <p className="text-sm font-medium">Document Search</p>
+          <Select value={retrievalMode} onValueChange={handleRetrievalModeChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="local">On-device embeddings (private)</SelectItem>
+              <SelectItem value="provider">Provider embeddings</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {retrievalMode === 'local'
+              ? 'Your document is indexed in your browser. Only the selected excerpts are sent with each question.'
+              : serverManaged
+                ? 'Provider embeddings need your own API key, so keyword search is used instead.'
+                : provider.createEmbedder
+                ? 'Your whole document is sent to the provider once to be indexed.'
+                : `${provider.name} has no embeddings API, so keyword search is used instead.`
+            }
+          </p>
+          <div className="flex items-center justify-between pt-2">
+            <label htmlFor="document-tools" className="text-sm">Let the model look things up</label>
+            <Switch id="document-tools" checked={toolsEnabled} onCheckedChange={handleToolsEnabledChange} />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {!toolsEnabled
+              ? 'Each question is sent with the excerpts picked above.'
+              : provider.capabilities.toolCalling
+                ? `${provider.name} searches and reads pages itself, which takes a few extra requests per question.`
+                : `${provider.name} cannot call tools, so it gets the excerpts picked above.`
+            }
+          </p>
+        </div>
       </div>
 
+      {locked && !serverManaged && <VaultUnlock onUnlock={unlock} onReset={resetVault} />}
+
       {/* API Key Input */}
-      {!apiKey && (
+      {!serverManaged && !locked && !apiKey && provider.apiKey.required && (
         <div className="ocean-card p-4 mb-4">
           <div className="flex items-center space-x-3 mb-2">
             <Waves className="w-5 h-5 text-primary" />
             <h3 className="font-semibold">API Key Required</h3>
           </div>
           <p className="text-sm text-muted-foreground mb-3">
-            {aiProvider === 'openai' 
-              ? 'Enter your OpenAI API key:' 
-              : 'Enter your Google AI Studio API key:'
-            }
+            {provider.apiKey.prompt}
           </p>
           <Input
             type="password"
-            placeholder={aiProvider === 'openai' ? 'sk-...' : 'AIza...'}
+            placeholder={provider.apiKey.placeholder}
             value={apiKey}
             onChange={(e) => handleApiKeyChange(e.target.value)}
             className="w-full"
           />
           <div className="text-xs text-muted-foreground mt-2 space-y-1">
-            <p>Your API key is stored locally and never sent to our servers.</p>
-            {aiProvider === 'gemini' && (
-              <p>
-                Get your free Gemini API key at{' '}
-                <a 
-                  href="https://aistudio.google.com/app/apikey" 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  className="text-primary hover:underline"
-                >
-                  Google AI Studio
-                </a>
-              </p>
-            )}
-            {aiProvider === 'openai' && (
-              <p>
-                Get your OpenAI API key at{' '}
-                <a 
-                  href="https://platform.openai.com/api-keys" 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  className="text-primary hover:underline"
-                >
-                  OpenAI Platform
-                </a>
-              </p>
-            )}
+            <p>Your API key is never sent to our servers. {KEY_STORAGE_NOTES[storageMode]}</p>
+            <p>
+              {provider.apiKey.helpText}{' '}
+              <a 
+                href={provider.apiKey.helpUrl} 
+                target="_blank" 
+                rel="noopener noreferrer"
+                className="text-primary hover:underline"
+              >
+                {provider.apiKey.helpLabel}
+              </a>
+            </p>
           </div>
         </div>
       )}
@@ -350,35 +698,60 @@ User question: ${question}`;
               </div>
               
               <div className={`chat-bubble ${message.sender}`}>
-                <p className="text-sm whitespace-pre-wrap">{message.text}</p>
+                {message.toolSteps?.length > 0 && <ToolSteps steps={message.toolSteps} />}
+                {message.isStreaming && !message.text ? (
+                  <div className="flex space-x-1">
+                    <div className="w-2 h-2 bg-primary/60 rounded-full animate-bounce"></div>
+                    <div className="w-2 h-2 bg-primary/60 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
+                    <div className="w-2 h-2 bg-primary/60 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
+                  </div>
+                ) : (
+                  getDisplayText(message) && <p className="text-sm whitespace-pre-wrap">{getDisplayText(message)}</p>
+                )}
+                {message.blocked && (
+                  <BlockedNotice blocked={message.blocked} provider={getProvider(message.generation?.provider ?? aiProvider)} />
+                )}
                 {message.chartData && <ChartRenderer chartData={message.chartData} />}
                 <p className="text-xs opacity-60 mt-1">
                   {message.timestamp.toLocaleTimeString()}
+                  {message.interrupted && ' · Stopped before completion'}
+                  {message.truncated && ' · Cut off at the output token limit'}
                 </p>
+                {message.truncated && !isLoading && message.id === messages[messages.length - 1].id && (
+                  <Button variant="outline" size="sm" className="mt-2" onClick={() => continueAnswer(message)}>
+                    <StepForward className="w-4 h-4 mr-1" />
+                    Continue
+                  </Button>
+                )}
+                {message.generation && !message.isStreaming && (
+                  <p className="text-xs opacity-60">
+                    {formatGeneration(message.generation)}
+                  </p>
+                )}
+                {message.usage && (
+                  <p className="text-xs opacity-60">
+                    {formatUsage(message.usage, prices[message.generation?.model])}
+                  </p>
+                )}
               </div>
             </div>
           ))}
-          
-          {isLoading && (
-            <div className="flex items-start space-x-3">
-              <div className="flex-shrink-0 w-8 h-8 rounded-full bg-muted text-muted-foreground flex items-center justify-center">
-                <Bot className="w-4 h-4" />
-              </div>
-              <div className="chat-bubble ai">
-                <div className="flex space-x-1">
-                  <div className="w-2 h-2 bg-primary/60 rounded-full animate-bounce"></div>
-                  <div className="w-2 h-2 bg-primary/60 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }}></div>
-                  <div className="w-2 h-2 bg-primary/60 rounded-full animate-bounce" style={{ animationDelay: '0.2s' }}></div>
-                </div>
-              </div>
-            </div>
-          )}
         </div>
       </ScrollArea>
 
       {/* Input Form */}
       <div className="border-t border-border p-4">
-        {apiKey && (
+        <div className="mb-2">
+          <UsageSummary
+            entries={usageEntries}
+            documentId={documentHash || fileName}
+            prices={prices}
+            onPriceChange={setPrice}
+            onPriceRemove={removePrice}
+            onPricesReset={resetPrices}
+          />
+        </div>
+        {apiKey && provider.apiKey.required && (
           <div className="flex justify-end mb-2">
             <Button 
               variant="ghost" 
@@ -395,16 +768,27 @@ User question: ${question}`;
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
             placeholder="Ask a question about your PDF..."
-            disabled={isLoading || !apiKey}
+            disabled={isLoading || !canChat}
             className="flex-1"
           />
-          <Button 
-            type="submit" 
-            disabled={isLoading || !inputValue.trim() || !apiKey}
-            className="btn-ocean"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+          {isLoading ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={stopGeneration}
+              aria-label="Stop generating"
+            >
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button 
+              type="submit" 
+              disabled={!inputValue.trim() || !canChat}
+              className="btn-ocean"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
         </form>
       </div>
     </div>
@@ -1,40 +1,133 @@
-import { useCallback, useState } from 'react';
+import { useCallback, useRef, useState } from 'react';
 import { useToast } from '@/components/ui/use-toast';
 import { Upload, FileText, Waves } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { PasswordDialog } from '@/components/PasswordDialog';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { blocksFromText, createParsedDocument, type PageContent, type ParsedDocument } from '@/lib/pdf/document';
+import { extractPageBlocks } from '@/lib/pdf/layout';
+import { createOcrReader, MIN_NATIVE_TEXT_CHARS } from '@/lib/pdf/ocr';
 
 interface DragDropZoneProps {
-  onFileUpload: (file: File, text: string) => void;
+  onFileUpload: (file: File, document: ParsedDocument) => void;
   isProcessing: boolean;
 }
 
+interface OcrProgress {
+  page: number;
+  // Position among the scanned pages, counting from 0
+  index: number;
+  total: number;
+  pageProgress: number;
+}
+
 export const DragDropZone = ({ onFileUpload, isProcessing }: DragDropZoneProps) => {
   const [isDragOver, setIsDragOver] = useState(false);
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<{ fileName: string; incorrect: boolean } | null>(null);
+  // Hands the password, or null if the user gave up, back to the waiting onPassword callback
+  const passwordResolver = useRef<((password: string | null) => void) | null>(null);
   const { toast } = useToast();
 
-  const processPDF = async (file: File): Promise<string> => {
+  const processPDF = useCallback(async (file: File): Promise<ParsedDocument> => {
     // Import PDF.js dynamically
     const pdfjsLib = await import('pdfjs-dist');
     
-    // Use the worker from the same version as our package
-    pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
+    // The worker from our own package, bundled as an asset, so it always matches the library's version
+    pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
 
     const arrayBuffer = await file.arrayBuffer();
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
+    // Encrypted files call this instead of failing with PasswordException, and again after a wrong password
+    loadingTask.onPassword = (updatePassword: (password: string | Error) => void, reason: number) => {
+      new Promise<string | null>((resolve) => {
+        passwordResolver.current = resolve;
+        setPasswordPrompt({ fileName: file.name, incorrect: reason === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD });
+      }).then((password) => {
+        // Giving up makes the load fail with the PasswordException handled in handleFile
+        updatePassword(password ?? new Error('No password given'));
+      });
+    };
+    const pdf = await loadingTask.promise;
+    try {
+      const pages: PageContent[] = [];
+      const scannedPages: number[] = [];
     
-    let fullText = '';
+      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        const page = await pdf.getPage(pageNum);
+        const textContent = await page.getTextContent();
+        const blocks = extractPageBlocks(textContent.items.filter((item): item is TextItem => 'str' in item));
+        pages.push({ blocks });
+        const nativeChars = blocks.reduce((sum, block) => sum + block.spans.reduce((count, span) => count + span.text.length, 0), 0);
+        if (nativeChars < MIN_NATIVE_TEXT_CHARS) scannedPages.push(pageNum);
+      }
+
+      if (scannedPages.length > 0) {
+        setOcrProgress({ page: scannedPages[0], index: 0, total: scannedPages.length, pageProgress: 0 });
+        try {
+          const reader = await createOcrReader((pageProgress) => {
+            setOcrProgress((current) => current && { ...current, pageProgress });
+          });
+          try {
+            for (const [index, pageNum] of scannedPages.entries()) {
+              setOcrProgress({ page: pageNum, index, total: scannedPages.length, pageProgress: 0 });
+              const recognized = await reader.recognize(await pdf.getPage(pageNum));
+              // OCR reads any stray native text on the page too, so it replaces rather than adds to it
+              if (recognized) pages[pageNum - 1] = { blocks: blocksFromText(recognized), ocr: true };
+            }
+          } finally {
+            await reader.terminate();
+          }
+        } catch (error) {
+          // The native text is still usable, so carry on without the scanned pages
+          console.error('OCR failed:', error);
+          toast({
+            title: "Could not read scanned pages",
+            description: `Text recognition failed, so ${scannedPages.length} page(s) without a text layer were skipped.`,
+            variant: "destructive",
+          });
+        } finally {
+          setOcrProgress(null);
+        }
+      }
     
-    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-      const page = await pdf.getPage(pageNum);
-      const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .filter((item): item is any => 'str' in item)
-        .map((item: any) => item.str)
-        .join(' ');
-      fullText += pageText + '\n\n';
+      // A damaged information dictionary is no reason to lose the text
+      const info = (await pdf.getMetadata().catch(() => null))?.info as Record<string, unknown> | undefined;
+      const infoText = (key: string) => {
+        const value = info?.[key];
+        return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+      };
+      const infoDate = (key: string) => {
+        const value = infoText(key);
+        return (value && pdfjsLib.PDFDateString.toDateObject(value)) || undefined;
+      };
+
+      return createParsedDocument(
+        {
+          fileName: file.name,
+          title: infoText('Title'),
+          author: infoText('Author'),
+          subject: infoText('Subject'),
+          keywords: infoText('Keywords'),
+          creator: infoText('Creator'),
+          producer: infoText('Producer'),
+          createdAt: infoDate('CreationDate'),
+          modifiedAt: infoDate('ModDate'),
+        },
+        pages,
+      );
+    } finally {
+      // Drops the document, and the password it was opened with, from the worker
+      await pdf.destroy();
     }
-    
-    return fullText.trim();
+  }, [toast]);
+
+  const answerPassword = (password: string | null) => {
+    passwordResolver.current?.(password);
+    passwordResolver.current = null;
+    setPasswordPrompt(null);
   };
 
   const handleFile = useCallback(async (file: File) => {
@@ -62,24 +155,37 @@ export const DragDropZone = ({ onFileUpload, isProcessing }: DragDropZoneProps)
         description: "Extracting text from your document...",
       });
 
-      const extractedText = await processPDF(file);
+      const parsedDocument = await processPDF(file);
+      const ocrPageCount = parsedDocument.pages.filter((page) => page.ocr).length;
       
-      if (!extractedText.trim()) {
+      if (!parsedDocument.text.trim()) {
         toast({
           title: "No text found",
-          description: "This PDF appears to be empty or contains only images.",
+          description: "This PDF appears to be empty, and no text could be recognized in its pages.",
           variant: "destructive",
         });
         return;
       }
 
-      onFileUpload(file, extractedText);
+      onFileUpload(file, parsedDocument);
       
       toast({
         title: "PDF uploaded successfully!",
-        description: `Extracted ${extractedText.length} characters. You can now ask questions about your document.`,
+        description: `Extracted ${parsedDocument.text.length} characters from ${parsedDocument.metadata.pageCount} page(s)${
+          ocrPageCount > 0 ? `, ${ocrPageCount} by OCR` : ''
+        }${
+          parsedDocument.tables.length > 0 ? `, with ${parsedDocument.tables.length} table(s)` : ''
+        }. You can now ask questions about your document.`,
       });
     } catch (error) {
+      if (error instanceof Error && error.name === 'PasswordException') {
+        toast({
+          title: "Password required",
+          description: "This PDF is encrypted. Upload it again and enter its password to read it.",
+          variant: "destructive",
+        });
+        return;
+      }
       console.error('Error processing PDF:', error);
       toast({
         title: "Processing failed",
@@ -87,7 +193,7 @@ export const DragDropZone = ({ onFileUpload, isProcessing }: DragDropZoneProps)
         variant: "destructive",
       });
     }
-  }, [onFileUpload, toast]);
+  }, [onFileUpload, processPDF, toast]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -114,6 +220,8 @@ export const DragDropZone = ({ onFileUpload, isProcessing }: DragDropZoneProps)
     if (files && files.length > 0) {
       handleFile(files[0]);
     }
+    // Clear the input so choosing the same file again, say after cancelling its password prompt, still fires onChange
+    e.target.value = '';
   }, [handleFile]);
 
   return (
@@ -148,13 +256,31 @@ export const DragDropZone = ({ onFileUpload, isProcessing }: DragDropZoneProps)
             variant="default"
             size="lg"
             className="btn-ocean"
-            disabled={isProcessing}
+            disabled={isProcessing || ocrProgress !== null}
             onClick={() => document.getElementById('file-input')?.click()}
           >
             <FileText className="w-5 h-5 mr-2" />
-            {isProcessing ? 'Processing...' : 'Choose PDF File'}
+            {isProcessing || ocrProgress ? 'Processing...' : 'Choose PDF File'}
           </Button>
 
+          {ocrProgress && (
+            <div className="w-full max-w-sm space-y-2">
+              <Progress value={((ocrProgress.index + ocrProgress.pageProgress) / ocrProgress.total) * 100} />
+              <p className="text-sm text-muted-foreground text-center">
+                Reading scanned page {ocrProgress.page} ({ocrProgress.index + 1} of {ocrProgress.total}) with OCR...
+              </p>
+            </div>
+          )}
+
+          {passwordPrompt && (
+            <PasswordDialog
+              fileName={passwordPrompt.fileName}
+              incorrect={passwordPrompt.incorrect}
+              onSubmit={answerPassword}
+              onCancel={() => answerPassword(null)}
+            />
+          )}
+
           <input
             id="file-input"
             type="file"
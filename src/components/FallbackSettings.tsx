@@ -0,0 +1,101 @@
+import { ArrowUp, ChevronDown, Plus, Route, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { FallbackTarget } from '@/lib/chat/fallback';
+import { getProvider, listProviders, type AIProvider, type ChatProvider } from '@/lib/chat/providers';
+
+interface FallbackSettingsProps {
+  primary: ChatProvider;
+  chain: FallbackTarget[];
+  onChange: (chain: FallbackTarget[]) => void;
+  // Whether a provider can be called at all, i.e. has a key or needs none
+  isUsable: (provider: AIProvider) => boolean;
+}
+
+export const FallbackSettings = ({ primary, chain, onChange, isUsable }: FallbackSettingsProps) => {
+  const update = (index: number, change: Partial<FallbackTarget>) =>
+    onChange(chain.map((target, i) => (i === index ? { ...target, ...change } : target)));
+
+  const remove = (index: number) => onChange(chain.filter((_, i) => i !== index));
+
+  const moveUp = (index: number) => {
+    const next = [...chain];
+    [next[index - 1], next[index]] = [next[index], next[index - 1]];
+    onChange(next);
+  };
+
+  const add = () => {
+    // Suggest a provider other than the primary, preferring one that is ready to use
+    const others = listProviders().filter((provider) => provider.id !== primary.id);
+    const suggestion = others.find((provider) => isUsable(provider.id)) ?? others[0];
+    onChange([...chain, { provider: suggestion.id, model: '' }]);
+  };
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-xs text-muted-foreground hover:text-foreground px-0">
+          <Route className="w-4 h-4 mr-1" />
+          Fallbacks{chain.length > 0 && ` (${chain.length})`}
+          <ChevronDown className="w-4 h-4 ml-1" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        <p className="text-xs text-muted-foreground">
+          When {primary.name} is rate-limited or down, questions go to these providers in order.
+        </p>
+        {chain.map((target, index) => {
+          const provider = getProvider(target.provider);
+          return (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center space-x-2">
+                <span className="text-xs text-muted-foreground w-4">{index + 1}.</span>
+                <Select value={target.provider} onValueChange={(value) => update(index, { provider: value as AIProvider, model: '' })}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {listProviders().map((option) => (
+                      <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="flex-1"
+                  placeholder={provider.defaultModel || 'Model name'}
+                  value={target.model}
+                  onChange={(e) => update(index, { model: e.target.value.trim() })}
+                  aria-label={`Fallback ${index + 1} model`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveUp(index)}
+                  disabled={index === 0}
+                  aria-label={`Move fallback ${index + 1} up`}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => remove(index)} aria-label={`Remove fallback ${index + 1}`}>
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+              {!isUsable(target.provider) && (
+                <p className="text-xs text-destructive pl-6">No {provider.name} key saved; this fallback is skipped.</p>
+              )}
+              {!target.model && !provider.defaultModel && (
+                <p className="text-xs text-destructive pl-6">Enter a model name; this fallback is skipped until then.</p>
+              )}
+            </div>
+          );
+        })}
+        <Button variant="outline" size="sm" onClick={add}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add fallback
+        </Button>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { listModels } from '@/lib/chat/engine';
+import type { ChatProvider, ProviderConnection } from '@/lib/chat/providers';
+import type { GenerationSettings as Settings } from '@/hooks/use-generation-settings';
+
+interface GenerationSettingsProps {
+  provider: ChatProvider;
+  // null when the keys live on the server, so models cannot be listed from the browser
+  connection: ProviderConnection | null;
+  settings: Settings;
+  onChange: (update: Partial<Settings>) => void;
+  onReset: () => void;
+}
+
+// Wait for the user to stop typing a key or base URL before asking for models
+const LIST_MODELS_DELAY = 500;
+const MAX_OUTPUT_TOKENS_LIMIT = 32000;
+
+// Slider steps accumulate float error (0.30000000000000004), which would end up in requests
+const roundStep = (value: number) => Math.round(value * 100) / 100;
+
+export const GenerationSettings = ({ provider, connection, settings, onChange, onReset }: GenerationSettingsProps) => {
+  const [models, setModels] = useState<string[]>(provider.fallbackModels);
+  const [manualEntry, setManualEntry] = useState(false);
+  const canListModels = connection !== null;
+  const apiKey = connection?.apiKey;
+  const baseUrl = connection?.baseUrl;
+
+  useEffect(() => {
+    setModels(provider.fallbackModels);
+    if (!canListModels || (provider.apiKey.required && !apiKey)) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      listModels(provider, { apiKey, baseUrl })
+        .then((listed) => {
+          if (!cancelled && listed.length > 0) setModels(listed);
+        })
+        .catch((error) => console.warn(`Could not list ${provider.name} models:`, error));
+    }, LIST_MODELS_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [provider, canListModels, apiKey, baseUrl]);
+
+  const model = settings.model || provider.defaultModel;
+  // Free text when there is nothing to pick from, or the user asked for it
+  const showInput = manualEntry || models.length === 0;
+  const options = model && !models.includes(model) ? [model, ...models] : models;
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Model</p>
+        {models.length > 0 && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() => setManualEntry(!manualEntry)}
+          >
+            {manualEntry ? 'Choose from list' : 'Enter manually'}
+          </Button>
+        )}
+      </div>
+      {showInput ? (
+        <Input
+          placeholder={provider.defaultModel || 'Model name, e.g. llama3.1:8b'}
+          value={settings.model}
+          onChange={(e) => onChange({ model: e.target.value.trim() })}
+          aria-label="Model name"
+        />
+      ) : (
+        <Select value={model} onValueChange={(value) => onChange({ model: value })}>
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-xs text-muted-foreground hover:text-foreground px-0">
+            <SlidersHorizontal className="w-4 h-4 mr-1" />
+            Advanced
+            <ChevronDown className="w-4 h-4 ml-1" />
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <Label>Temperature</Label>
+              <span className="text-xs text-muted-foreground">{settings.temperature.toFixed(1)}</span>
+            </div>
+            <Slider
+              min={0}
+              max={2}
+              step={0.1}
+              value={[settings.temperature]}
+              onValueChange={([temperature]) => onChange({ temperature: roundStep(temperature) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between">
+              <Label>Top-p</Label>
+              <span className="text-xs text-muted-foreground">{settings.topP.toFixed(2)}</span>
+            </div>
+            <Slider
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={[settings.topP]}
+              onValueChange={([topP]) => onChange({ topP: roundStep(topP) })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-output-tokens">Max output tokens</Label>
+            <Input
+              id="max-output-tokens"
+              type="number"
+              min={1}
+              max={MAX_OUTPUT_TOKENS_LIMIT}
+              value={settings.maxOutputTokens}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (value > 0) onChange({ maxOutputTokens: Math.min(Math.round(value), MAX_OUTPUT_TOKENS_LIMIT) });
+              }}
+            />
+          </div>
+          <Button variant="outline" size="sm" onClick={onReset}>
+            Reset to defaults
+          </Button>
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
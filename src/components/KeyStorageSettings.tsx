@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Lock, ShieldAlert, ShieldCheck, Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { VAULT_IDLE_TIMEOUT_MINUTES, type KeyStorageMode } from '@/hooks/use-api-keys';
+
+interface KeyStorageSettingsProps {
+  mode: KeyStorageMode;
+  onModeChange: (mode: KeyStorageMode, passphrase?: string) => Promise<void>;
+  onLock: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const DESCRIPTIONS: Record<KeyStorageMode, string> = {
+  session: 'Keys are kept only until you close this tab.',
+  vault: `Keys are encrypted with your passphrase. They lock after ${VAULT_IDLE_TIMEOUT_MINUTES} minutes of inactivity.`,
+  plaintext: 'Keys are saved unencrypted. Anyone with access to this browser, or any script running on this page, can read them.',
+};
+
+export const KeyStorageSettings = ({ mode, onModeChange, onLock }: KeyStorageSettingsProps) => {
+  const [settingPassphrase, setSettingPassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [confirmPlaintext, setConfirmPlaintext] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const passphraseError =
+    passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : passphrase !== confirmation
+        ? 'Passphrases do not match'
+        : '';
+
+  const createVault = async () => {
+    setSaving(true);
+    try {
+      await onModeChange('vault', passphrase);
+      setSettingPassphrase(false);
+      setPassphrase('');
+      setConfirmation('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const Icon = mode === 'vault' ? ShieldCheck : mode === 'plaintext' ? ShieldAlert : Timer;
+
+  return (
+    <div className="ocean-card p-4 space-y-3">
+      <div className="flex items-center space-x-2">
+        <Icon className={`w-4 h-4 ${mode === 'plaintext' ? 'text-destructive' : 'text-primary'}`} />
+        <h4 className="font-semibold">Key storage</h4>
+      </div>
+      <p className="text-sm text-muted-foreground">{DESCRIPTIONS[mode]}</p>
+
+      {settingPassphrase ? (
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!passphraseError) createVault();
+          }}
+        >
+          <Input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="new-password"
+            aria-label="Passphrase"
+          />
+          <Input
+            type="password"
+            placeholder="Confirm passphrase"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="new-password"
+            aria-label="Confirm passphrase"
+          />
+          {passphrase && passphraseError && <p className="text-xs text-destructive">{passphraseError}</p>}
+          <p className="text-xs text-muted-foreground">
+            The passphrase cannot be recovered. If you forget it, you will need to enter your keys again.
+          </p>
+          <div className="flex space-x-2">
+            <Button type="submit" size="sm" disabled={!!passphraseError || saving}>
+              {saving ? 'Encrypting…' : 'Encrypt keys'}
+            </Button>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setSettingPassphrase(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : confirmPlaintext ? (
+        <div className="space-y-2">
+          <p className="text-xs text-destructive">
+            Saving keys unencrypted exposes them to anyone who can use this browser profile. Continue?
+          </p>
+          <div className="flex space-x-2">
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => onModeChange('plaintext').then(() => setConfirmPlaintext(false))}
+            >
+              Save unencrypted
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setConfirmPlaintext(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {mode === 'vault' ? (
+            <Button variant="outline" size="sm" onClick={onLock}>
+              <Lock className="w-4 h-4 mr-1" />
+              Lock now
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setSettingPassphrase(true)}>
+              <ShieldCheck className="w-4 h-4 mr-1" />
+              Protect with passphrase
+            </Button>
+          )}
+          {mode === 'vault' && (
+            <Button variant="ghost" size="sm" onClick={() => setSettingPassphrase(true)}>
+              Change passphrase
+            </Button>
+          )}
+          {mode !== 'plaintext' && (
+            <Button variant="ghost" size="sm" onClick={() => setConfirmPlaintext(true)}>
+              Save unencrypted
+            </Button>
+          )}
+          {mode !== 'session' && (
+            <Button variant="ghost" size="sm" onClick={() => onModeChange('session')}>
+              Forget keys on close
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
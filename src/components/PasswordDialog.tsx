@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+
+interface PasswordDialogProps {
+  fileName: string;
+  // The last password pdf.js was given did not open the file
+  incorrect: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for the password of an encrypted PDF. The password only lives in this
+ * component's state until it is handed to pdf.js; it is never stored.
+ */
+export const PasswordDialog = ({ fileName, incorrect, onSubmit, onCancel }: PasswordDialogProps) => {
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+    onSubmit(password);
+    setPassword('');
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Lock className="w-5 h-5 mr-2 text-primary" />
+              Password required
+            </DialogTitle>
+            <DialogDescription>
+              "{fileName}" is encrypted. Enter its password to read it. The password is used only to open the file
+              in your browser and is not saved.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="password"
+            placeholder="PDF password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            // Keep browsers from offering to save it
+            autoComplete="off"
+            aria-label="PDF password"
+            aria-invalid={incorrect}
+            autoFocus
+          />
+          {incorrect && <p className="text-sm text-destructive">That password is not correct. Please try again.</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!password}>
+              Open PDF
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
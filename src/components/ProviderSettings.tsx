@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { CheckCircle2, KeyRound, Loader2, RefreshCw, Trash2, XCircle, AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { checkApiKey, type ApiKeyStatus } from '@/lib/chat/engine';
+import { listProviders, type AIProvider, type ChatProvider } from '@/lib/chat/providers';
+import type { ApiKeys, KeyStorageMode } from '@/hooks/use-api-keys';
+import { KeyStorageSettings } from './KeyStorageSettings';
+
+interface ProviderSettingsProps {
+  apiKeys: ApiKeys;
+  baseUrl: string;
+  onApiKeyChange: (provider: AIProvider, key: string) => void;
+  onApiKeyRemove: (provider: AIProvider) => void;
+  storageMode: KeyStorageMode;
+  locked: boolean;
+  onStorageModeChange: (mode: KeyStorageMode, passphrase?: string) => Promise<void>;
+  onLock: () => void;
+}
+
+const maskKey = (key: string) => (key.length > 8 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '••••');
+
+const StatusBadge = ({ status }: { status: ApiKeyStatus }) => {
+  switch (status) {
+    case 'checking':
+      return <Badge variant="secondary"><Loader2 className="w-3 h-3 mr-1 animate-spin" />Checking</Badge>;
+    case 'valid':
+      return <Badge variant="secondary"><CheckCircle2 className="w-3 h-3 mr-1 text-green-600" />Valid</Badge>;
+    case 'invalid':
+      return <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />Invalid</Badge>;
+    case 'unreachable':
+      return <Badge variant="outline"><AlertTriangle className="w-3 h-3 mr-1" />Could not check</Badge>;
+    default:
+      return <Badge variant="outline">Not checked</Badge>;
+  }
+};
+
+export const ProviderSettings = ({
+  apiKeys,
+  baseUrl,
+  onApiKeyChange,
+  onApiKeyRemove,
+  storageMode,
+  locked,
+  onStorageModeChange,
+  onLock,
+}: ProviderSettingsProps) => {
+  const [open, setOpen] = useState(false);
+  // Remember which key each status was checked for, so a replaced key shows as unchecked
+  const [statuses, setStatuses] = useState<Partial<Record<AIProvider, { key: string; status: ApiKeyStatus }>>>({});
+  const [drafts, setDrafts] = useState<Partial<Record<AIProvider, string>>>({});
+
+  const statusFor = (provider: ChatProvider): ApiKeyStatus => {
+    const entry = statuses[provider.id];
+    return entry && entry.key === apiKeys[provider.id] ? entry.status : 'unknown';
+  };
+
+  const validate = async (provider: ChatProvider, key: string) => {
+    setStatuses(prev => ({ ...prev, [provider.id]: { key, status: 'checking' } }));
+    const status = await checkApiKey(provider, { apiKey: key, baseUrl: baseUrl || provider.baseUrl?.default });
+    setStatuses(prev => ({ ...prev, [provider.id]: { key, status } }));
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+    // Check every stored key that has not been checked yet
+    listProviders().forEach((provider) => {
+      const key = apiKeys[provider.id];
+      if (key && statusFor(provider) === 'unknown') validate(provider, key);
+    });
+  };
+
+  const saveDraft = (provider: ChatProvider) => {
+    const key = drafts[provider.id]?.trim();
+    if (!key) return;
+    onApiKeyChange(provider.id, key);
+    setDrafts(prev => ({ ...prev, [provider.id]: '' }));
+    validate(provider, key);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-xs text-muted-foreground hover:text-foreground">
+          <KeyRound className="w-4 h-4 mr-1" />
+          Manage keys
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>API Keys</SheetTitle>
+          <SheetDescription>
+            Each provider keeps its own key. Keys are only ever sent to that provider.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 mt-6">
+          {locked ? (
+            <p className="text-sm text-muted-foreground">
+              Your keys are locked. Unlock them with your passphrase to manage them.
+            </p>
+          ) : (
+            <KeyStorageSettings mode={storageMode} onModeChange={onStorageModeChange} onLock={onLock} />
+          )}
+          {/* Providers that answer in the browser have no key to manage */}
+          {!locked && listProviders().filter((provider) => !provider.transport).map((provider) => {
+            const key = apiKeys[provider.id];
+            return (
+              <div key={provider.id} className="ocean-card p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold">{provider.name}</h4>
+                  {key && <StatusBadge status={statusFor(provider)} />}
+                </div>
+
+                {key ? (
+                  <div className="flex items-center justify-between">
+                    <code className="text-sm text-muted-foreground">{maskKey(key)}</code>
+                    <div className="flex space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => validate(provider, key)}
+                        disabled={statusFor(provider) === 'checking'}
+                        aria-label={`Check ${provider.name} key`}
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onApiKeyRemove(provider.id)}
+                        aria-label={`Delete ${provider.name} key`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <form
+                    className="flex space-x-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      saveDraft(provider);
+                    }}
+                  >
+                    <Input
+                      type="password"
+                      placeholder={provider.apiKey.placeholder}
+                      value={drafts[provider.id] ?? ''}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [provider.id]: e.target.value }))}
+                      aria-label={`${provider.name} API key`}
+                    />
+                    <Button type="submit" variant="outline" disabled={!drafts[provider.id]?.trim()}>
+                      Save
+                    </Button>
+                  </form>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
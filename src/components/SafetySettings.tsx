@@ -0,0 +1,65 @@
+import { ChevronDown, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ChatProvider, SafetySettings as Settings, SafetyThreshold } from '@/lib/chat/providers';
+
+interface SafetySettingsProps {
+  provider: ChatProvider;
+  settings: Settings;
+  onChange: (category: string, threshold: SafetyThreshold) => void;
+  onReset: () => void;
+}
+
+const THRESHOLD_LABELS: Record<SafetyThreshold, string> = {
+  default: 'Provider default',
+  none: 'Never block',
+  high: 'Block only high risk',
+  medium: 'Block medium risk and above',
+  low: 'Block low risk and above',
+};
+
+export const SafetySettings = ({ provider, settings, onChange, onReset }: SafetySettingsProps) => {
+  const categories = provider.safetyCategories ?? [];
+  const adjusted = categories.filter((category) => (settings[category.id] ?? 'default') !== 'default').length;
+
+  return (
+    <Collapsible>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-xs text-muted-foreground hover:text-foreground px-0">
+          <ShieldAlert className="w-4 h-4 mr-1" />
+          Safety filters{adjusted > 0 && ` (${adjusted} adjusted)`}
+          <ChevronDown className="w-4 h-4 ml-1" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        <p className="text-xs text-muted-foreground">
+          {provider.name} may refuse to discuss medical, legal or security documents. Loosen a category if answers
+          about your document keep getting blocked.
+        </p>
+        {categories.map((category) => (
+          <div key={category.id} className="flex items-center justify-between space-x-2">
+            <Label htmlFor={`safety-${category.id}`} className="text-xs">{category.label}</Label>
+            <Select
+              value={settings[category.id] ?? 'default'}
+              onValueChange={(value) => onChange(category.id, value as SafetyThreshold)}
+            >
+              <SelectTrigger id={`safety-${category.id}`} className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(THRESHOLD_LABELS).map(([threshold, label]) => (
+                  <SelectItem key={threshold} value={threshold}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+        <Button variant="ghost" size="sm" className="text-xs" onClick={onReset} disabled={adjusted === 0}>
+          Reset to defaults
+        </Button>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
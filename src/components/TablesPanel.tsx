@@ -0,0 +1,80 @@
+import { Download, Table2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { DocumentTable } from '@/lib/pdf/document';
+import { tableToCsv } from '@/lib/pdf/tables';
+
+interface TablesPanelProps {
+  tables: DocumentTable[];
+  fileName: string;
+}
+
+const downloadCsv = (table: DocumentTable, fileName: string) => {
+  // The byte order mark makes Excel read the file as UTF-8 rather than the system code page
+  const blob = new Blob(['\ufeff', tableToCsv(table.cells)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName.replace(/\.pdf$/i, '')}-${table.id}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const TablesPanel = ({ tables, fileName }: TablesPanelProps) => (
+  <Sheet>
+    <SheetTrigger asChild>
+      <Button variant="outline" size="sm" disabled={tables.length === 0}>
+        <Table2 className="w-4 h-4 mr-1" />
+        Tables ({tables.length})
+      </Button>
+    </SheetTrigger>
+    <SheetContent className="overflow-y-auto sm:max-w-2xl">
+      <SheetHeader>
+        <SheetTitle>Tables</SheetTitle>
+        <SheetDescription>
+          Tables detected from the layout of the document. Ask about one by its ID, e.g. "chart the second column of T1".
+        </SheetDescription>
+      </SheetHeader>
+
+      <div className="mt-4 space-y-6">
+        {tables.map((table) => (
+          <div key={table.id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">
+                {table.id}
+                <span className="ml-2 font-normal text-muted-foreground">
+                  Page {table.page} · {table.cells.length} rows × {table.cells[0]?.length ?? 0} columns
+                </span>
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => downloadCsv(table, fileName)}>
+                <Download className="w-4 h-4 mr-1" />
+                CSV
+              </Button>
+            </div>
+            <div className="max-h-72 overflow-auto rounded border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {table.cells[0]?.map((cell, column) => (
+                      <TableHead key={column} className="whitespace-nowrap">{cell}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {table.cells.slice(1).map((row, index) => (
+                    <TableRow key={index}>
+                      {row.map((cell, column) => (
+                        <TableCell key={column} className="whitespace-nowrap text-xs">{cell}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ))}
+      </div>
+    </SheetContent>
+  </Sheet>
+);
@@ -0,0 +1,35 @@
+import { ChevronRight, Wrench } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { ToolStep } from '@/lib/chat/types';
+
+interface ToolStepsProps {
+  steps: ToolStep[];
+}
+
+// A one-line summary of the call, e.g. search_document("revenue 2023")
+const describeCall = ({ name, args }: ToolStep) => {
+  const values = Object.values(args)
+    .filter((value) => typeof value === 'string' || typeof value === 'number')
+    .map((value) => (typeof value === 'string' ? `"${value}"` : String(value)));
+  return `${name}(${values.join(', ')})`;
+};
+
+export const ToolSteps = ({ steps }: ToolStepsProps) => (
+  <div className="mb-2 space-y-1">
+    {steps.map((step) => (
+      <Collapsible key={step.id}>
+        <CollapsibleTrigger className="group flex items-center text-xs opacity-70 hover:opacity-100">
+          <ChevronRight className="w-3 h-3 mr-1 transition-transform group-data-[state=open]:rotate-90" />
+          <Wrench className="w-3 h-3 mr-1" />
+          <span className="font-mono truncate max-w-xs">{describeCall(step)}</span>
+          {step.failed && <span className="ml-1 text-destructive">failed</span>}
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <pre className="mt-1 max-h-48 overflow-auto rounded bg-background/50 p-2 text-xs whitespace-pre-wrap">
+            {step.result}
+          </pre>
+        </CollapsibleContent>
+      </Collapsible>
+    ))}
+  </div>
+);
@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { Coins, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { estimateCost, formatCost, formatTokens, type ModelPrice, type PriceTable } from '@/lib/chat/pricing';
+import type { UsageEntry } from '@/hooks/use-usage-ledger';
+
+interface UsageSummaryProps {
+  entries: UsageEntry[];
+  documentId: string;
+  prices: PriceTable;
+  onPriceChange: (model: string, price: ModelPrice) => void;
+  onPriceRemove: (model: string) => void;
+  onPricesReset: () => void;
+}
+
+interface Totals {
+  tokens: number;
+  cost: number;
+  // Some answers came from models without a price, so the cost is a lower bound
+  unpriced: boolean;
+}
+
+const summarize = (entries: UsageEntry[], prices: PriceTable): Totals =>
+  entries.reduce<Totals>(
+    (totals, entry) => {
+      const cost = estimateCost(entry.usage, prices[entry.model]);
+      return {
+        tokens: totals.tokens + entry.usage.totalTokens,
+        cost: totals.cost + (cost ?? 0),
+        unpriced: totals.unpriced || cost === undefined,
+      };
+    },
+    { tokens: 0, cost: 0, unpriced: false },
+  );
+
+const formatTotals = ({ tokens, cost, unpriced }: Totals) =>
+  `${formatTokens(tokens)} tokens · ${unpriced ? 'at least ' : ''}${formatCost(cost)}`;
+
+const PriceInput = ({ value, onChange, label }: { value: number; onChange: (value: number) => void; label: string }) => (
+  <Input
+    type="number"
+    min={0}
+    step="any"
+    className="h-8 w-24"
+    value={value}
+    onChange={(e) => {
+      const price = Number(e.target.value);
+      if (e.target.value !== '' && price >= 0) onChange(price);
+    }}
+    aria-label={label}
+  />
+);
+
+export const UsageSummary = ({ entries, documentId, prices, onPriceChange, onPriceRemove, onPricesReset }: UsageSummaryProps) => {
+  const [newModel, setNewModel] = useState('');
+
+  const documentTotals = summarize(entries.filter((entry) => entry.documentId === documentId), prices);
+  const sessionTotals = summarize(entries, prices);
+  const unpricedModels = [...new Set(entries.map((entry) => entry.model))].filter((model) => !prices[model]);
+
+  const addModel = (model: string) => {
+    const name = model.trim();
+    if (!name || prices[name]) return;
+    onPriceChange(name, { input: 0, output: 0 });
+    setNewModel('');
+  };
+
+  return (
+    <div className="flex items-center justify-between text-xs text-muted-foreground">
+      <span>
+        This document: {formatTotals(documentTotals)} · Session: {formatTotals(sessionTotals)}
+      </span>
+      <Sheet>
+        <SheetTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-xs text-muted-foreground hover:text-foreground">
+            <Coins className="w-4 h-4 mr-1" />
+            Prices
+          </Button>
+        </SheetTrigger>
+        <SheetContent className="overflow-y-auto sm:max-w-lg">
+          <SheetHeader>
+            <SheetTitle>Model Prices</SheetTitle>
+            <SheetDescription>
+              US dollars per million tokens, used to estimate what each answer costs. Adjust them to match your plan.
+            </SheetDescription>
+          </SheetHeader>
+
+          {unpricedModels.length > 0 && (
+            <div className="ocean-card p-3 mt-4 space-y-2">
+              <p className="text-sm">Used this session without a price:</p>
+              <div className="flex flex-wrap gap-2">
+                {unpricedModels.map((model) => (
+                  <Button key={model} variant="outline" size="sm" onClick={() => addModel(model)}>
+                    <Plus className="w-3 h-3 mr-1" />
+                    {model}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Table className="mt-4">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead>Input</TableHead>
+                <TableHead>Output</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.entries(prices).map(([model, price]) => (
+                <TableRow key={model}>
+                  <TableCell className="font-mono text-xs">{model}</TableCell>
+                  <TableCell>
+                    <PriceInput
+                      value={price.input}
+                      onChange={(input) => onPriceChange(model, { ...price, input })}
+                      label={`${model} input price`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <PriceInput
+                      value={price.output}
+                      onChange={(output) => onPriceChange(model, { ...price, output })}
+                      label={`${model} output price`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => onPriceRemove(model)} aria-label={`Remove ${model}`}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <form
+            className="flex space-x-2 mt-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addModel(newModel);
+            }}
+          >
+            <Input placeholder="Model name" value={newModel} onChange={(e) => setNewModel(e.target.value)} aria-label="Model name" />
+            <Button type="submit" variant="outline" disabled={!newModel.trim() || Boolean(prices[newModel.trim()])}>
+              Add
+            </Button>
+          </form>
+          <Button variant="ghost" size="sm" className="mt-2" onClick={onPricesReset}>
+            Reset to list prices
+          </Button>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
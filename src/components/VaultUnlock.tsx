@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface VaultUnlockProps {
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onReset: () => void;
+}
+
+export const VaultUnlock = ({ onUnlock, onReset }: VaultUnlockProps) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setUnlocking(true);
+    setError('');
+    try {
+      const unlocked = await onUnlock(passphrase);
+      if (unlocked) {
+        setPassphrase('');
+      } else {
+        setError('That passphrase is not correct.');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unlock your keys.');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="ocean-card p-4 mb-4">
+      <div className="flex items-center space-x-3 mb-2">
+        <Lock className="w-5 h-5 text-primary" />
+        <h3 className="font-semibold">Keys Locked</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-3">
+        Enter your passphrase to unlock your saved API keys for this session.
+      </p>
+      <form className="flex space-x-2" onSubmit={handleSubmit}>
+        <Input
+          type="password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoComplete="current-password"
+          aria-label="Passphrase"
+          autoFocus
+        />
+        <Button type="submit" disabled={!passphrase || unlocking}>
+          {unlocking ? 'Unlocking…' : 'Unlock'}
+        </Button>
+      </form>
+      {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+      <div className="text-xs text-muted-foreground mt-2">
+        {confirmReset ? (
+          <p>
+            This deletes your saved keys.{' '}
+            <button type="button" className="text-destructive hover:underline" onClick={onReset}>
+              Delete keys
+            </button>{' '}
+            <button type="button" className="text-primary hover:underline" onClick={() => setConfirmReset(false)}>
+              Cancel
+            </button>
+          </p>
+        ) : (
+          <button type="button" className="text-primary hover:underline" onClick={() => setConfirmReset(true)}>
+            Forgot your passphrase?
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
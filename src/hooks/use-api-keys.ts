@@ -0,0 +1,210 @@
+import { useEffect, useState } from "react";
+import { toast } from "@/hooks/use-toast";
+import { DEFAULT_PROVIDER, type AIProvider } from "@/lib/chat/providers";
+import { createVaultKey, openVault, sealVault, VaultPassphraseError, type EncryptedVault, type VaultKey } from "@/lib/key-vault";
+
+export type ApiKeys = Partial<Record<AIProvider, string>>;
+
+// session: keys live in memory only and are gone when the tab closes
+export type KeyStorageMode = "session" | "vault" | "plaintext";
+
+interface KeyState {
+  mode: KeyStorageMode;
+  keys: ApiKeys;
+  locked: boolean;
+  // Keys found saved in plaintext without the user having chosen that
+  movedFromPlaintext: boolean;
+}
+
+const STORAGE_KEY = "ai_api_keys";
+const VAULT_STORAGE_KEY = "ai_api_keys_vault";
+const MODE_STORAGE_KEY = "ai_key_storage";
+// Single key shared by all providers, from before keys were stored per provider
+const LEGACY_STORAGE_KEY = "ai_api_key";
+
+export const VAULT_IDLE_TIMEOUT_MINUTES = 15;
+const ACTIVITY_EVENTS = ["pointerdown", "keydown"] as const;
+
+const readPlaintextKeys = (): ApiKeys => {
+  let keys: ApiKeys = {};
+  try {
+    keys = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    keys = {};
+  }
+
+  const legacyKey = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacyKey) {
+    // The old key always belonged to whichever provider was selected at the time
+    const provider = (localStorage.getItem("ai_provider") as AIProvider) || DEFAULT_PROVIDER;
+    keys = { [provider]: legacyKey, ...keys };
+  }
+  return keys;
+};
+
+const readVault = (): EncryptedVault | null => {
+  try {
+    return JSON.parse(localStorage.getItem(VAULT_STORAGE_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const loadState = (): KeyState => {
+  const mode = localStorage.getItem(MODE_STORAGE_KEY) as KeyStorageMode | null;
+  if (mode === "vault" && readVault()) {
+    return { mode, keys: {}, locked: true, movedFromPlaintext: false };
+  }
+
+  const keys = readPlaintextKeys();
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  if (mode === "plaintext") {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+    return { mode, keys, locked: false, movedFromPlaintext: false };
+  }
+
+  // Earlier versions saved keys unencrypted without asking. Keep them for this
+  // session but take them off disk until the user picks how to store them.
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(MODE_STORAGE_KEY);
+  return { mode: "session", keys, locked: false, movedFromPlaintext: Object.keys(keys).length > 0 };
+};
+
+// Shared by every component using the hook, and kept across remounts such as
+// "New Document", so the vault is unlocked once per page session
+const listeners: Array<(state: KeyState) => void> = [];
+let memoryState: KeyState | null = null;
+// The derived key is held in memory only, for as long as the vault is unlocked
+let vaultKey: VaultKey | null = null;
+// Serialises vault writes so an older encryption never lands after a newer one
+let pendingWrite: Promise<void> = Promise.resolve();
+let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+const getState = (): KeyState => {
+  if (!memoryState) memoryState = loadState();
+  return memoryState;
+};
+
+const setState = (update: Partial<KeyState>) => {
+  memoryState = { ...getState(), ...update };
+  listeners.forEach((listener) => listener(memoryState));
+  watchIdle();
+};
+
+const persist = (mode: KeyStorageMode, keys: ApiKeys) => {
+  if (mode === "plaintext") {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(keys));
+  } else if (mode === "vault" && vaultKey) {
+    const key = vaultKey;
+    pendingWrite = pendingWrite
+      .then(() => sealVault(key, keys))
+      .then((vault) => localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(vault)))
+      .catch((error) => console.error("Could not save encrypted API keys:", error));
+  }
+};
+
+const lock = () => {
+  if (getState().mode !== "vault") return;
+  vaultKey = null;
+  setState({ keys: {}, locked: true });
+};
+
+const restartIdleTimer = () => {
+  clearTimeout(idleTimer);
+  idleTimer = setTimeout(lock, VAULT_IDLE_TIMEOUT_MINUTES * 60 * 1000);
+};
+
+// Auto-lock once the page has seen no input for a while
+const watchIdle = () => {
+  const { mode, locked } = getState();
+  ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, restartIdleTimer));
+  clearTimeout(idleTimer);
+  if (mode !== "vault" || locked) return;
+
+  restartIdleTimer();
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, restartIdleTimer, { passive: true }));
+};
+
+const setApiKey = (provider: AIProvider, key: string) => {
+  const { mode, keys } = getState();
+  const { [provider]: _previous, ...rest } = keys;
+  const next = key ? { ...rest, [provider]: key } : rest;
+  persist(mode, next);
+  setState({ keys: next });
+};
+
+const removeApiKey = (provider: AIProvider) => setApiKey(provider, "");
+
+/** Resolves false for a wrong passphrase. */
+const unlock = async (passphrase: string): Promise<boolean> => {
+  const vault = readVault();
+  if (!vault) return false;
+  try {
+    const opened = await openVault<ApiKeys>(vault, passphrase);
+    vaultKey = opened.vaultKey;
+    setState({ keys: opened.value, locked: false });
+    return true;
+  } catch (error) {
+    if (!(error instanceof VaultPassphraseError)) throw error;
+    return false;
+  }
+};
+
+const changeStorageMode = async (mode: KeyStorageMode, passphrase?: string) => {
+  if (mode === "vault") {
+    if (!passphrase) throw new Error("A passphrase is required to encrypt keys");
+    vaultKey = await createVaultKey(passphrase);
+  } else {
+    vaultKey = null;
+  }
+
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  if (mode === "session") {
+    localStorage.removeItem(MODE_STORAGE_KEY);
+  } else {
+    localStorage.setItem(MODE_STORAGE_KEY, mode);
+  }
+
+  const { keys } = getState();
+  persist(mode, keys);
+  setState({ mode, locked: false });
+};
+
+/** Drops a vault whose passphrase is lost, along with the keys inside it. */
+const resetVault = () => changeStorageMode("session");
+
+export function useApiKeys() {
+  const [state, setLocalState] = useState<KeyState>(getState);
+
+  useEffect(() => {
+    listeners.push(setLocalState);
+    // Catch up with anything that changed between render and subscribing
+    setLocalState(getState());
+    return () => {
+      const index = listeners.indexOf(setLocalState);
+      if (index > -1) listeners.splice(index, 1);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!state.movedFromPlaintext) return;
+    setState({ movedFromPlaintext: false });
+    toast({
+      title: "Saved keys need a storage choice",
+      description: "Your API keys were saved unencrypted. They are kept for this session only until you choose how to store them under Manage keys.",
+    });
+  }, [state.movedFromPlaintext]);
+
+  return {
+    apiKeys: state.keys,
+    setApiKey,
+    removeApiKey,
+    storageMode: state.mode,
+    locked: state.locked,
+    unlock,
+    lock,
+    changeStorageMode,
+    resetVault,
+  };
+}
@@ -0,0 +1,24 @@
+import { useCallback, useState } from "react";
+import type { FallbackTarget } from "@/lib/chat/fallback";
+
+const STORAGE_KEY = "ai_fallback_chain";
+
+const loadChain = (): FallbackTarget[] => {
+  try {
+    const chain = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(chain) ? chain : [];
+  } catch {
+    return [];
+  }
+};
+
+export function useFallbackChain() {
+  const [chain, setChain] = useState<FallbackTarget[]>(loadChain);
+
+  const updateChain = useCallback((next: FallbackTarget[]) => {
+    setChain(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  }, []);
+
+  return { chain, updateChain };
+}
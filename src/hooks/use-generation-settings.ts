@@ -0,0 +1,59 @@
+import { useCallback, useState } from "react";
+import { DEFAULT_GENERATION } from "@/lib/chat/engine";
+import type { AIProvider, GenerationParams } from "@/lib/chat/providers";
+
+export interface GenerationSettings extends GenerationParams {
+  // Empty means the provider's default model
+  model: string;
+}
+
+type StoredSettings = Partial<Record<AIProvider, Partial<GenerationSettings>>>;
+
+const STORAGE_KEY = "ai_generation_settings";
+// Free-text model name of the OpenAI-compatible provider, from before models were stored per provider
+const LEGACY_COMPATIBLE_MODEL_KEY = "compatible_model";
+
+const loadSettings = (): StoredSettings => {
+  let settings: StoredSettings = {};
+  try {
+    settings = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    settings = {};
+  }
+
+  const legacyModel = localStorage.getItem(LEGACY_COMPATIBLE_MODEL_KEY);
+  if (legacyModel) {
+    settings = { ...settings, "openai-compatible": { model: legacyModel, ...settings["openai-compatible"] } };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    localStorage.removeItem(LEGACY_COMPATIBLE_MODEL_KEY);
+  }
+  return settings;
+};
+
+export function useGenerationSettings(provider: AIProvider) {
+  const [stored, setStored] = useState<StoredSettings>(loadSettings);
+
+  const settings: GenerationSettings = { model: "", ...DEFAULT_GENERATION, ...stored[provider] };
+
+  const updateSettings = useCallback(
+    (update: Partial<GenerationSettings>) => {
+      setStored((current) => {
+        const next = { ...current, [provider]: { ...current[provider], ...update } };
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+        return next;
+      });
+    },
+    [provider],
+  );
+
+  const resetParams = useCallback(() => {
+    setStored((current) => {
+      // Keep the chosen model, only the sampling parameters go back to their defaults
+      const next = { ...current, [provider]: { model: current[provider]?.model } };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, [provider]);
+
+  return { settings, updateSettings, resetParams };
+}
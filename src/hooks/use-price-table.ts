@@ -0,0 +1,46 @@
+import { useCallback, useState } from "react";
+import { DEFAULT_PRICES, type ModelPrice, type PriceTable } from "@/lib/chat/pricing";
+
+// Holds the whole table once the user edits it, so removed defaults stay removed
+const STORAGE_KEY = "ai_model_prices";
+
+const loadPrices = (): PriceTable => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "null") ?? DEFAULT_PRICES;
+  } catch {
+    return DEFAULT_PRICES;
+  }
+};
+
+export function usePriceTable() {
+  const [prices, setPrices] = useState<PriceTable>(loadPrices);
+
+  const updatePrices = useCallback((update: (prices: PriceTable) => PriceTable) => {
+    setPrices((current) => {
+      const next = update(current);
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const setPrice = useCallback(
+    (model: string, price: ModelPrice) => updatePrices((current) => ({ ...current, [model]: price })),
+    [updatePrices],
+  );
+
+  const removePrice = useCallback(
+    (model: string) =>
+      updatePrices((current) => {
+        const { [model]: _removed, ...rest } = current;
+        return rest;
+      }),
+    [updatePrices],
+  );
+
+  const resetPrices = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY);
+    setPrices(DEFAULT_PRICES);
+  }, []);
+
+  return { prices, setPrice, removePrice, resetPrices };
+}
@@ -0,0 +1,40 @@
+import { useCallback, useState } from "react";
+import type { AIProvider, SafetySettings, SafetyThreshold } from "@/lib/chat/providers";
+
+// Per provider, since a fallback answer should go through its own provider's filters
+type StoredSettings = Partial<Record<AIProvider, SafetySettings>>;
+
+const STORAGE_KEY = "ai_safety_settings";
+
+const loadSettings = (): StoredSettings => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+export function useSafetySettings() {
+  const [stored, setStored] = useState<StoredSettings>(loadSettings);
+
+  const safetySettingsFor = useCallback((provider: AIProvider): SafetySettings => stored[provider] ?? {}, [stored]);
+
+  const setThreshold = useCallback((provider: AIProvider, category: string, threshold: SafetyThreshold) => {
+    setStored((current) => {
+      const next = { ...current, [provider]: { ...current[provider], [category]: threshold } };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const resetSafetySettings = useCallback((provider: AIProvider) => {
+    setStored((current) => {
+      const next = { ...current };
+      delete next[provider];
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return { safetySettingsFor, setThreshold, resetSafetySettings };
+}
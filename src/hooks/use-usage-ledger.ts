@@ -0,0 +1,35 @@
+import { useCallback, useState } from "react";
+import type { AIProvider, TokenUsage } from "@/lib/chat/providers";
+
+export interface UsageEntry {
+  // SHA-256 of the document text, so reopening the same file adds to its total
+  documentId: string;
+  provider: AIProvider;
+  model: string;
+  usage: TokenUsage;
+}
+
+// Session storage: the running cost survives reloads and new documents, but not closing the tab
+const STORAGE_KEY = "ai_usage_ledger";
+
+const loadEntries = (): UsageEntry[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+};
+
+export function useUsageLedger() {
+  const [entries, setEntries] = useState<UsageEntry[]>(loadEntries);
+
+  const recordUsage = useCallback((entry: UsageEntry) => {
+    setEntries((current) => {
+      const next = [...current, entry];
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  return { entries, recordUsage };
+}
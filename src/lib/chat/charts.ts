@@ -0,0 +1,20 @@
+import type { ChartData, Message } from './types';
+
+const CHART_REGEX = /```chart\n([\s\S]*?)\n```/;
+// Matches complete and still-open chart fences while an answer is streaming in or cut off
+const STREAMING_CHART_REGEX = /```chart[\s\S]*?(```|$)/g;
+
+export const extractChart = (text: string): { text: string; chartData?: ChartData } => {
+  const chartMatch = text.match(CHART_REGEX);
+  if (!chartMatch) return { text };
+
+  try {
+    return { text: text.replace(CHART_REGEX, '').trim(), chartData: JSON.parse(chartMatch[1]) };
+  } catch (e) {
+    console.error('Failed to parse chart data:', e);
+    return { text };
+  }
+};
+
+export const getDisplayText = (message: Message): string =>
+  message.isStreaming || message.truncated || message.blocked ? message.text.replace(STREAMING_CHART_REGEX, '') : message.text;
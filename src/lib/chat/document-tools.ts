@@ -0,0 +1,273 @@
+import {
+  getPageText,
+  getTable,
+  type DocumentMetadata,
+  type DocumentPage,
+  type DocumentTable,
+  type ParsedDocument,
+} from '@/lib/pdf/document';
+import { parseCellNumber, tableToCsv } from '@/lib/pdf/tables';
+import { fuseRankings, type DocumentRetriever } from '@/lib/retrieval/context';
+import type { SemanticIndex } from '@/lib/retrieval/semantic';
+import type { ChatTool } from './tools';
+import type { ChartData } from './types';
+
+interface DocumentToolsOptions {
+  document: ParsedDocument;
+  retriever: DocumentRetriever;
+  semanticIndex?: SemanticIndex | null;
+}
+
+const DEFAULT_SEARCH_RESULTS = 5;
+const MAX_SEARCH_RESULTS = 10;
+// Keeps a single tool result from crowding out the conversation
+const MAX_PAGE_CHARS = 8000;
+const MAX_OUTLINE_CHARS = 8000;
+const OUTLINE_LINE_CHARS = 100;
+
+const CHART_TYPES: ChartData['type'][] = ['bar', 'line', 'pie'];
+
+const requireString = (args: Record<string, unknown>, name: string): string => {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`"${name}" must be a non-empty string`);
+  return value.trim();
+};
+
+const optionalInteger = (args: Record<string, unknown>, name: string): number | undefined => {
+  const value = args[name];
+  if (value === undefined || value === null) return undefined;
+  // Some models send numbers as strings
+  const number = Number(value);
+  if (!Number.isInteger(number)) throw new Error(`"${name}" must be a whole number`);
+  return number;
+};
+
+// The title, author and dates, for the top of the outline
+const describeMetadata = ({ title, author, subject, createdAt, modifiedAt }: DocumentMetadata): string =>
+  [
+    title && `Title: ${title}`,
+    author && `Author: ${author}`,
+    subject && `Subject: ${subject}`,
+    createdAt && `Created: ${createdAt.toISOString().slice(0, 10)}`,
+    modifiedAt && `Modified: ${modifiedAt.toISOString().slice(0, 10)}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+// A column by header text or 1-based number, as the model may name it either way
+const findColumn = (table: DocumentTable, column: unknown, fallback: number): number => {
+  if (column === undefined || column === null || column === '') return fallback;
+  const header = table.cells[0] ?? [];
+  const byName = header.findIndex((cell) => cell.trim().toLowerCase() === String(column).trim().toLowerCase());
+  if (byName >= 0) return byName;
+  const byNumber = Number(column);
+  if (Number.isInteger(byNumber) && byNumber >= 1 && byNumber <= header.length) return byNumber - 1;
+  throw new Error(`Table ${table.id} has no column "${column}". Its columns are: ${header.join(', ')}`);
+};
+
+// Plots one column against another, skipping rows without a number such as subheadings
+const tableChartPoints = (table: DocumentTable, labelColumn: unknown, valueColumn: unknown): ChartData['data'] => {
+  const label = findColumn(table, labelColumn, 0);
+  const value = findColumn(table, valueColumn, 1);
+  const points = table.cells.slice(1).flatMap((row) => {
+    const number = parseCellNumber(row[value] ?? '');
+    return number === undefined ? [] : [{ name: row[label] ?? '', value: number }];
+  });
+  if (points.length === 0) throw new Error(`Column "${table.cells[0]?.[value]}" of table ${table.id} has no numbers`);
+  return points;
+};
+
+const toChartPoints = (data: unknown): ChartData['data'] => {
+  if (!Array.isArray(data) || data.length === 0) throw new Error('"data" must be a non-empty list of {name, value} points');
+  return data.map((point, i) => {
+    const name = (point as { name?: unknown })?.name;
+    const value = Number((point as { value?: unknown })?.value);
+    if (typeof name !== 'string' || !Number.isFinite(value)) {
+      throw new Error(`data[${i}] needs a string "name" and a numeric "value"`);
+    }
+    return { name, value };
+  });
+};
+
+/**
+ * The tools the model can use to read the uploaded document for itself,
+ * instead of relying on the excerpts retrieval picked up front.
+ */
+export const createDocumentTools = ({ document, retriever, semanticIndex }: DocumentToolsOptions): ChatTool[] => {
+  const { pages } = document;
+
+  const searchDocument: ChatTool = {
+    name: 'search_document',
+    description:
+      'Searches the document for passages relevant to a query and returns the best matches with their page numbers. ' +
+      'Use it before answering any question about the document\'s content.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Keywords or a question describing what to look for' },
+        limit: { type: 'integer', description: `How many passages to return, at most ${MAX_SEARCH_RESULTS}` },
+      },
+      required: ['query'],
+    },
+    run: async (args) => {
+      const query = requireString(args, 'query');
+      const limit = Math.min(Math.max(optionalInteger(args, 'limit') ?? DEFAULT_SEARCH_RESULTS, 1), MAX_SEARCH_RESULTS);
+      const semanticResults = semanticIndex
+        ? await semanticIndex.search(query).catch((error) => {
+            console.warn('Semantic search failed, using keyword retrieval only:', error);
+            return [];
+          })
+        : [];
+      const passages = fuseRankings(retriever.search(query, MAX_SEARCH_RESULTS * 4), semanticResults).slice(0, limit);
+      if (passages.length === 0) {
+        return { content: `No passages matched "${query}". Try other words, or read pages directly with get_page.` };
+      }
+      return { content: passages.map((chunk) => `[Page ${chunk.page}]\n${chunk.text}`).join('\n\n---\n\n') };
+    },
+  };
+
+  const describePage = (page: DocumentPage) => {
+    const pageText = getPageText(document, page).trim();
+    if (!pageText) return `Page ${page.number} has no extractable text.`;
+    const note = page.ocr ? `[Page ${page.number} is a scan; its text was recognized by OCR and may contain errors]\n` : '';
+    return note + pageText;
+  };
+
+  const getPage: ChatTool = {
+    name: 'get_page',
+    description:
+      `Returns the full text of one page, or of a range of pages with last_page. ` +
+      `The document has ${pages.length} pages, numbered from 1.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        page: { type: 'integer', description: 'Page number, starting at 1' },
+        last_page: { type: 'integer', description: 'Last page to return, for a range; defaults to page' },
+      },
+      required: ['page'],
+    },
+    run: (args) => {
+      const first = optionalInteger(args, 'page');
+      const last = optionalInteger(args, 'last_page') ?? first;
+      if (first === undefined || first < 1 || last < first || last > pages.length) {
+        throw new Error(`"page" and "last_page" must be between 1 and ${pages.length}, in order`);
+      }
+
+      let content = '';
+      for (const page of pages.slice(first - 1, last)) {
+        const section = `${first === last ? '' : `[Page ${page.number}]\n`}${describePage(page)}`;
+        if (content.length + section.length > MAX_PAGE_CHARS) {
+          const room = MAX_PAGE_CHARS - content.length;
+          content += `${section.slice(0, room)}\n[Truncated at ${MAX_PAGE_CHARS} characters within page ${page.number}; ask for later pages separately]`;
+          break;
+        }
+        content += `${section}\n\n`;
+      }
+      return { content: content.trim() };
+    },
+  };
+
+  const getOutline: ChatTool = {
+    name: 'get_outline',
+    description:
+      'Lists every page with its headings and their level (1 is the most prominent), or its opening words when it has none, ' +
+      'to find where topics are covered or to summarize the structure.',
+    parameters: { type: 'object', properties: {} },
+    run: () => {
+      const metadata = describeMetadata(document.metadata);
+      let outline = `${metadata ? `${metadata}\n` : ''}The document has ${pages.length} pages.`;
+      for (const [index, page] of pages.entries()) {
+        const headings = page.blocks
+          .filter((block) => block.type === 'heading')
+          // The spans hold the title alone, without the Markdown marks the document text gives headings
+          .map((block) => `${block.spans.map((span) => span.text).join(' ')} (level ${block.level ?? 1})`);
+        const opening = getPageText(document, page).replace(/\s+/g, ' ').trim();
+        const summary = headings.length > 0
+          ? headings.join(' | ')
+          : opening.length > OUTLINE_LINE_CHARS ? `${opening.slice(0, OUTLINE_LINE_CHARS)}…` : opening || '(no text)';
+        const tables = document.tables.filter((table) => table.page === page.number).map((table) => table.id);
+        const line = `\nPage ${page.number}: ${summary}${tables.length > 0 ? ` [tables ${tables.join(', ')}]` : ''}`;
+        if (outline.length + line.length > MAX_OUTLINE_CHARS) {
+          outline += `\n…and ${pages.length - index} more pages; use search_document to find them.`;
+          break;
+        }
+        outline += line;
+      }
+      return { content: outline };
+    },
+  };
+
+  const getTableTool: ChatTool = {
+    name: 'get_table',
+    description:
+      'Returns a table detected in the document as CSV, first row being the header. ' +
+      `Tables are labelled [Table T1], [Table T2]… in the text; this document has ${document.tables.length}.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        table_id: { type: 'string', description: 'The table ID, e.g. T1' },
+      },
+      required: ['table_id'],
+    },
+    run: (args) => {
+      const id = requireString(args, 'table_id');
+      const table = getTable(document, id);
+      if (!table) {
+        const known = document.tables.map((candidate) => candidate.id).join(', ') || 'none';
+        throw new Error(`There is no table "${id}". Tables in this document: ${known}`);
+      }
+      const csv = tableToCsv(table.cells);
+      const content = `Table ${table.id}, page ${table.page}, ${table.cells.length} rows:\n${csv}`;
+      if (content.length <= MAX_PAGE_CHARS) return { content };
+      return { content: `${content.slice(0, MAX_PAGE_CHARS)}\n[Table ${table.id} truncated at ${MAX_PAGE_CHARS} characters]` };
+    },
+  };
+
+  const createChart: ChatTool = {
+    name: 'create_chart',
+    description:
+      'Draws a chart under your answer. Use it when the user asks for a chart, graph or visualization, ' +
+      'with real figures taken from the document. To chart a detected table, pass table_id and the columns ' +
+      'instead of data, so the values are read straight from its cells.',
+    parameters: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: CHART_TYPES, description: 'Bar, line or pie chart' },
+        title: { type: 'string', description: 'Short chart title' },
+        data: {
+          type: 'array',
+          description: 'One point per bar, line point or pie slice',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Label of the point' },
+              value: { type: 'number', description: 'Its value' },
+            },
+            required: ['name', 'value'],
+          },
+        },
+        table_id: { type: 'string', description: 'A table to chart instead of data, e.g. T1' },
+        label_column: { type: 'string', description: 'With table_id: header or 1-based number of the label column; defaults to the first' },
+        value_column: { type: 'string', description: 'With table_id: header or 1-based number of the value column; defaults to the second' },
+      },
+      required: ['type'],
+    },
+    run: (args) => {
+      const type = requireString(args, 'type') as ChartData['type'];
+      if (!CHART_TYPES.includes(type)) throw new Error(`"type" must be one of ${CHART_TYPES.join(', ')}`);
+      const title = typeof args.title === 'string' ? args.title : undefined;
+      let data: ChartData['data'];
+      if (typeof args.table_id === 'string' && args.table_id.trim()) {
+        const table = getTable(document, args.table_id);
+        if (!table) throw new Error(`There is no table "${args.table_id}"`);
+        data = tableChartPoints(table, args.label_column, args.value_column);
+      } else {
+        data = toChartPoints(args.data);
+      }
+      const chartData: ChartData = { type, title, data, xKey: 'name', yKey: 'value', dataKey: 'value' };
+      return { content: 'The chart is shown to the user with your answer; do not repeat it as a chart block.', chartData };
+    },
+  };
+
+  return [searchDocument, getPage, getOutline, getTableTool, createChart];
+};
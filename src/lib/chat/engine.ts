@@ -0,0 +1,334 @@
+import { ChatError, classifyFetchFailure, classifyResponse } from './errors';
+import { addUsage } from './pricing';
+import { readServerSentEvents } from './sse';
+import { runToolCall, toToolDefinition, type ChatTool } from './tools';
+import type { ProxyChatRequest } from './proxy';
+import type { ToolStep } from './types';
+import type {
+  ChatProvider,
+  ChatRequest,
+  ContentBlock,
+  FinishReason,
+  GenerationParams,
+  ProviderChunk,
+  ProviderConnection,
+  ProviderHttpRequest,
+  TokenUsage,
+  ToolCall,
+  ToolCallDelta,
+  ToolRound,
+} from './providers/types';
+
+export const NO_RESPONSE_TEXT = 'Sorry, I could not generate a response.';
+
+export const DEFAULT_GENERATION: GenerationParams = {
+  temperature: 0.7,
+  maxOutputTokens: 1000,
+  topP: 1,
+};
+
+export interface ChatResult {
+  text: string;
+  // Missing when the server does not report token counts
+  usage?: TokenUsage;
+  finishReason?: FinishReason;
+  // Set when a content filter refused the question or cut the answer short
+  blocked?: ContentBlock;
+}
+
+export interface RetryNotice {
+  error: ChatError;
+  // The attempt that just failed, counting from 1
+  attempt: number;
+  delayMs: number;
+}
+
+interface SendChatOptions extends ProviderConnection {
+  onToken: (token: string) => void;
+  signal?: AbortSignal;
+  // Go through the key-holding server at this URL instead of calling the provider directly
+  proxyUrl?: string;
+  onRetry?: (notice: RetryNotice) => void;
+  // Narrows which transient failures are retried here, e.g. when a fallback provider is waiting
+  shouldRetry?: (error: ChatError) => boolean;
+  // Offered to the model, which may call them before answering
+  tools?: ChatTool[];
+  onToolStep?: (step: ToolStep) => void;
+}
+
+// What one request returned, before any tool calls in it are run
+interface AttemptResult extends ChatResult {
+  toolCalls: ToolCall[];
+}
+
+export const MAX_ATTEMPTS = 3;
+// After this many rounds of tool calls the model is asked to answer with what it has
+export const MAX_TOOL_ROUNDS = 5;
+const BASE_RETRY_DELAY_MS = 1000;
+// If the provider wants us to wait longer than this, telling the user is more useful
+const MAX_RETRY_DELAY_MS = 30000;
+
+const buildProxyRequest = (provider: ChatProvider, request: ChatRequest, proxyUrl: string): ProviderHttpRequest => {
+  const body: ProxyChatRequest = { ...request, provider: provider.id };
+  return { url: proxyUrl, headers: { 'Content-Type': 'application/json' }, body };
+};
+
+// Exponential backoff with jitter, unless the provider named a delay
+const retryDelay = (error: ChatError, attempt: number) =>
+  error.retryAfterMs ?? BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+const completeUsage = ({ promptTokens, completionTokens, totalTokens }: Partial<TokenUsage>): TokenUsage | undefined => {
+  if (promptTokens === undefined && completionTokens === undefined) return undefined;
+  return {
+    promptTokens: promptTokens ?? 0,
+    completionTokens: completionTokens ?? 0,
+    totalTokens: totalTokens ?? (promptTokens ?? 0) + (completionTokens ?? 0),
+  };
+};
+
+const parseToolArguments = (json: string | undefined): Record<string, unknown> => {
+  try {
+    return JSON.parse(json || '{}');
+  } catch {
+    // The tool reports the missing arguments back to the model
+    return {};
+  }
+};
+
+const attemptChat = async (
+  provider: ChatProvider,
+  request: ChatRequest,
+  { apiKey, baseUrl, onToken, signal, proxyUrl }: SendChatOptions,
+): Promise<AttemptResult> => {
+  // Providers that answer in the browser have nothing for the proxy to do
+  const { url, headers, body } = proxyUrl && !provider.transport
+    ? buildProxyRequest(provider, request, proxyUrl)
+    : provider.buildRequest(request, { apiKey, baseUrl });
+
+  let response: Response;
+  try {
+    response = await (provider.transport ?? fetch)(url, {
+      method: 'POST',
+      signal,
+      headers,
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw await classifyFetchFailure(provider, url);
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw classifyResponse(provider, response, errorData);
+  }
+
+  let text = '';
+  let usage: Partial<TokenUsage> = {};
+  let finishReason: FinishReason | undefined;
+  let blocked: ContentBlock | undefined;
+  const toolCalls: ToolCall[] = [];
+  // Gemini never sends call IDs; the round number keeps ours unique across the whole tool loop
+  const fallbackId = () => `call_${request.toolRounds?.length ?? 0}_${toolCalls.length}`;
+  const partialCalls = new Map<number, ToolCallDelta>();
+  const append = (chunk: ProviderChunk) => {
+    finishReason = chunk.finishReason ?? finishReason;
+    blocked = chunk.blocked ?? blocked;
+    chunk.toolCalls?.forEach((call) => toolCalls.push({ ...call, id: call.id || fallbackId() }));
+    chunk.toolCallDeltas?.forEach((delta) => {
+      const current = partialCalls.get(delta.index);
+      partialCalls.set(delta.index, {
+        index: delta.index,
+        id: delta.id ?? current?.id,
+        name: delta.name ?? current?.name,
+        arguments: (current?.arguments ?? '') + (delta.arguments ?? ''),
+      });
+    });
+    Object.entries(chunk.usage ?? {}).forEach(([field, count]) => {
+      if (typeof count === 'number') usage = { ...usage, [field]: count };
+    });
+    if (!chunk.text) return;
+    text += chunk.text;
+    onToken(chunk.text);
+  };
+
+  try {
+    if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      for await (const data of readServerSentEvents(response)) {
+        const chunk = provider.parseStreamEvent(data);
+        append(chunk);
+        if (chunk.done) break;
+      }
+    } else {
+      append(provider.parseResponse(await response.json()));
+    }
+  } catch (error) {
+    // A dropped connection mid-stream surfaces as a bare TypeError from the reader
+    if (error instanceof TypeError && !signal?.aborted) {
+      throw new ChatError('network', `Lost the connection to ${provider.name}`);
+    }
+    throw error;
+  }
+
+  // Providers that only report a safety finish reason still get a block, just without categories
+  if (finishReason === 'safety' && !blocked) blocked = { stage: 'response', reason: 'safety', categories: [] };
+
+  [...partialCalls.values()]
+    .sort((a, b) => a.index - b.index)
+    .forEach((call) => {
+      toolCalls.push({ id: call.id || fallbackId(), name: call.name, args: parseToolArguments(call.arguments) });
+    });
+
+  return { text, usage: completeUsage(usage), finishReason, blocked, toolCalls };
+};
+
+/**
+ * One request with retries. Transient failures (rate limits, server
+ * errors, dropped connections) are retried with backoff, but only while
+ * nothing has been streamed yet; a retry would repeat what the user has seen.
+ */
+const sendWithRetries = async (
+  provider: ChatProvider,
+  request: ChatRequest,
+  options: SendChatOptions,
+): Promise<AttemptResult> => {
+  const { signal, onToken, onRetry, shouldRetry = () => true } = options;
+  for (let attempt = 1; ; attempt++) {
+    let streamed = false;
+    try {
+      return await attemptChat(provider, request, {
+        ...options,
+        onToken: (token) => {
+          streamed = true;
+          onToken(token);
+        },
+      });
+    } catch (error) {
+      if (
+        signal?.aborted ||
+        !(error instanceof ChatError) ||
+        !error.retryable ||
+        !shouldRetry(error) ||
+        streamed ||
+        attempt >= MAX_ATTEMPTS
+      ) {
+        throw error;
+      }
+      const delayMs = retryDelay(error, attempt);
+      if (delayMs > MAX_RETRY_DELAY_MS) throw error;
+      onRetry?.({ error, attempt, delayMs });
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+/**
+ * Sends one chat turn to any provider and returns the full answer with its
+ * token usage, reporting tokens as they stream in. Servers that ignore the streaming flag and reply
+ * with plain JSON are handled too.
+ *
+ * When tools are given, the model may call them instead of answering; the
+ * calls are run, their results sent back, and so on until it answers or
+ * MAX_TOOL_ROUNDS is reached. Usage is summed over all rounds.
+ *
+ * Failures are thrown as ChatError, after retrying the transient ones.
+ */
+export const sendChat = async (
+  provider: ChatProvider,
+  request: ChatRequest,
+  options: SendChatOptions,
+): Promise<ChatResult> => {
+  const { apiKey, proxyUrl, signal, onToken, tools = [], onToolStep } = options;
+  if (!proxyUrl && !apiKey && provider.apiKey.required) {
+    throw new ChatError('invalid-key', `${provider.name} API key is required`);
+  }
+  if (!request.model) {
+    throw new ChatError('bad-request', `Choose a model for ${provider.name}`);
+  }
+
+  const toolRounds: ToolRound[] = [];
+  let text = '';
+  let usage: TokenUsage | undefined;
+  for (let round = 0; ; round++) {
+    const lastRound = round >= MAX_TOOL_ROUNDS;
+    // Keep what the model said before calling tools apart from what follows
+    let separated = text === '';
+    const result = await sendWithRetries(provider, {
+      ...request,
+      ...(tools.length > 0 && {
+        tools: tools.map(toToolDefinition),
+        toolChoice: lastRound ? 'none' : 'auto',
+        toolRounds,
+      }),
+    }, {
+      ...options,
+      onToken: (token) => {
+        if (!separated) {
+          separated = true;
+          text += '\n\n';
+          onToken('\n\n');
+        }
+        text += token;
+        onToken(token);
+      },
+    });
+    usage = addUsage(usage, result.usage);
+
+    if (result.toolCalls.length === 0 || result.blocked || lastRound) {
+      return { text: text || (result.blocked ? '' : NO_RESPONSE_TEXT), usage, finishReason: result.finishReason, blocked: result.blocked };
+    }
+
+    const steps: ToolStep[] = [];
+    for (const call of result.toolCalls) {
+      if (signal?.aborted) throw signal.reason;
+      const step = await runToolCall(tools, call);
+      onToolStep?.(step);
+      steps.push(step);
+    }
+    toolRounds.push({
+      text: result.text,
+      calls: result.toolCalls,
+      results: steps.map((step) => ({ callId: step.id, name: step.name, content: step.result })),
+    });
+  }
+};
+
+export type ApiKeyStatus = 'unknown' | 'checking' | 'valid' | 'invalid' | 'unreachable';
+
+/**
+ * Checks a key against the provider's list-models endpoint, which is free
+ * and does not consume any tokens.
+ */
+export const checkApiKey = async (provider: ChatProvider, connection: ProviderConnection): Promise<ApiKeyStatus> => {
+  const { url, headers } = provider.buildModelsRequest(connection);
+  try {
+    const response = await (provider.transport ?? fetch)(url, { headers });
+    if (response.ok) return 'valid';
+    // Gemini answers a bad key with 400 INVALID_ARGUMENT rather than 401
+    return [400, 401, 403].includes(response.status) ? 'invalid' : 'unreachable';
+  } catch {
+    return 'unreachable';
+  }
+};
+
+export const listModels = async (provider: ChatProvider, connection: ProviderConnection): Promise<string[]> => {
+  const { url, headers } = provider.buildModelsRequest(connection);
+  const response = await (provider.transport ?? fetch)(url, { headers });
+  if (!response.ok) {
+    throw new Error(`${provider.name} models request failed (${response.status})`);
+  }
+  return provider.parseModels(await response.json());
+};
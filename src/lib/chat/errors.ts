@@ -0,0 +1,125 @@
+import type { ChatProvider } from './providers/types';
+
+export type ChatErrorKind = 'invalid-key' | 'quota' | 'server' | 'network' | 'cors' | 'blocked' | 'bad-request';
+
+interface ChatErrorOptions {
+  status?: number;
+  // How long the provider asked us to wait before trying again
+  retryAfterMs?: number;
+  retryable?: boolean;
+}
+
+// Worth another attempt unless the provider says otherwise
+const TRANSIENT_KINDS: ChatErrorKind[] = ['quota', 'server', 'network'];
+
+export class ChatError extends Error {
+  readonly kind: ChatErrorKind;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(kind: ChatErrorKind, message: string, { status, retryAfterMs, retryable }: ChatErrorOptions = {}) {
+    super(message);
+    this.name = 'ChatError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.retryable = retryable ?? TRANSIENT_KINDS.includes(kind);
+  }
+}
+
+export const ERROR_HELP: Record<ChatErrorKind, { title: string; hint: string }> = {
+  'invalid-key': {
+    title: 'Invalid API Key',
+    hint: 'Check the key under Manage keys or create a new one. With server-managed keys, ask whoever runs the server.',
+  },
+  quota: {
+    title: 'Rate Limit Reached',
+    hint: "Wait a minute and try again, check your plan's usage limits, or switch to another provider.",
+  },
+  server: {
+    title: 'Provider Unavailable',
+    hint: 'The provider is having problems on its side. Try again in a few moments.',
+  },
+  network: {
+    title: 'Connection Problem',
+    hint: 'Check your internet connection and, for self-hosted models, that the server address is right and the server is running.',
+  },
+  cors: {
+    title: 'Blocked by the Browser',
+    hint: 'The server does not accept requests from this page. Allow this origin in its CORS settings (for Ollama, set OLLAMA_ORIGINS).',
+  },
+  blocked: {
+    title: 'Content Blocked',
+    hint: "The provider's safety filters refused this request. Try rephrasing your question.",
+  },
+  'bad-request': {
+    title: 'Request Rejected',
+    hint: 'Check the model name and the advanced generation settings.',
+  },
+};
+
+/** Reads Retry-After, which is either a number of seconds or an HTTP date. */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// The error body shapes of all supported providers, merged
+export interface ProviderErrorBody {
+  error?: {
+    message?: string;
+    code?: string | number;
+    type?: string;
+    details?: { retryDelay?: string }[];
+  };
+}
+
+// Gemini puts the delay in the body instead: details[].retryDelay = "13s"
+const parseGoogleRetryDelay = (errorData: ProviderErrorBody): number | undefined => {
+  const retryInfo = errorData.error?.details?.find((detail) => typeof detail?.retryDelay === 'string');
+  const seconds = retryInfo ? parseFloat(retryInfo.retryDelay) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : undefined;
+};
+
+const BLOCKED_PATTERN = /content[ _-]?(policy|filter|management)|safety|blocked/i;
+
+/** Turns a non-OK provider response into a ChatError of the right kind. */
+export const classifyResponse = (provider: ChatProvider, response: Response, errorData: ProviderErrorBody): ChatError => {
+  const { status } = response;
+  const detail = errorData.error?.message || response.statusText;
+  const code = String(errorData.error?.code ?? errorData.error?.type ?? '');
+  const message = `${provider.name} API error (${status}): ${detail}`;
+  const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After')) ?? parseGoogleRetryDelay(errorData);
+
+  if (status === 401 || status === 403) return new ChatError('invalid-key', message, { status });
+  if (status === 429) {
+    // OpenAI's "insufficient_quota" means billing, which waiting will not fix
+    return new ChatError('quota', message, { status, retryAfterMs, retryable: code !== 'insufficient_quota' });
+  }
+  if (status === 408 || status >= 500) return new ChatError('server', message, { status, retryAfterMs });
+  // Gemini answers a bad key with 400 INVALID_ARGUMENT rather than 401
+  if (/api key/i.test(detail)) return new ChatError('invalid-key', message, { status });
+  if (BLOCKED_PATTERN.test(code) || BLOCKED_PATTERN.test(detail)) return new ChatError('blocked', message, { status });
+  return new ChatError('bad-request', message, { status });
+};
+
+/**
+ * fetch() rejects with the same opaque TypeError whether the server is down
+ * or the browser blocked the response for lack of CORS headers. A no-cors
+ * request tells them apart: it succeeds whenever the server is reachable.
+ */
+export const classifyFetchFailure = async (provider: ChatProvider, url: string): Promise<ChatError> => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return new ChatError('network', 'You appear to be offline');
+  }
+  try {
+    await fetch(url, { method: 'HEAD', mode: 'no-cors' });
+    return new ChatError('cors', `${provider.name} did not allow a request from this page`);
+  } catch {
+    return new ChatError('network', `Could not connect to ${provider.name}`);
+  }
+};
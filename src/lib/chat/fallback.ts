@@ -0,0 +1,14 @@
+import { ChatError, type ChatErrorKind } from './errors';
+import type { AIProvider } from './providers/types';
+
+export interface FallbackTarget {
+  provider: AIProvider;
+  // Empty means the provider's default model
+  model: string;
+}
+
+// Failures another provider is unlikely to share; a rejected request or blocked content would fail everywhere
+const FALLBACK_KINDS: ChatErrorKind[] = ['quota', 'server'];
+
+export const canFallBack = (error: unknown): boolean =>
+  error instanceof ChatError && FALLBACK_KINDS.includes(error.kind);
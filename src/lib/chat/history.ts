@@ -0,0 +1,115 @@
+import { DEFAULT_CONTEXT_CHARS } from '@/lib/retrieval/context';
+import type { ChatProvider } from './providers/types';
+import type { Message } from './types';
+
+export interface HistoryTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Rough heuristic that holds well enough for English text across providers
+const CHARS_PER_TOKEN = 4;
+
+// The system prompt's instructions and the new question
+const PROMPT_TOKEN_RESERVE = 1000;
+// Even when the window is nearly used up, keep enough for a follow-up to make sense
+const MIN_HISTORY_TOKEN_BUDGET = 1000;
+// However large the window, resending a long transcript with every question costs more than it helps
+const HISTORY_TOKEN_CAP = 8000;
+// capabilities.contextWindow is the default model's; other models may well have less
+const OTHER_MODEL_CONTEXT_WINDOW = 16000;
+
+// Dropped questions are listed in a short note so follow-ups keep some context
+const SUMMARY_BUDGET_RATIO = 0.1;
+const SUMMARY_QUESTION_LENGTH = 200;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Tokens left for earlier turns once the document excerpts (or, with tools,
+ * the pages the model looks up), the rest of the prompt and the answer are
+ * accounted for, up to HISTORY_TOKEN_CAP.
+ */
+export const getHistoryTokenBudget = (provider: ChatProvider, model: string, maxOutputTokens: number): number => {
+  const { contextWindow } = provider.capabilities;
+  const modelWindow = model === provider.defaultModel ? contextWindow : Math.min(contextWindow, OTHER_MODEL_CONTEXT_WINDOW);
+  const available = modelWindow - Math.ceil(DEFAULT_CONTEXT_CHARS / CHARS_PER_TOKEN) - PROMPT_TOKEN_RESERVE - maxOutputTokens;
+  return Math.min(Math.max(available, MIN_HISTORY_TOKEN_BUDGET), HISTORY_TOKEN_CAP);
+};
+
+const toTurnContent = (message: Message): string => {
+  if (!message.chartData) return message.text;
+  // Charts are stripped from the displayed text, so put them back for the model to refer to
+  return `${message.text}\n\n\`\`\`chart\n${JSON.stringify(message.chartData)}\n\`\`\``;
+};
+
+const mergeTurns = (turns: HistoryTurn[]): HistoryTurn[] =>
+  turns.reduce<HistoryTurn[]>((merged, turn) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === turn.role) {
+      previous.content = `${previous.content}\n\n${turn.content}`;
+    } else {
+      merged.push({ ...turn });
+    }
+    return merged;
+  }, []);
+
+const summarizeDroppedTurns = (dropped: HistoryTurn[], tokenBudget: number): string | null => {
+  const questions = dropped.filter((turn) => turn.role === 'user');
+  if (questions.length === 0) return null;
+
+  const maxChars = Math.floor(tokenBudget * SUMMARY_BUDGET_RATIO) * CHARS_PER_TOKEN;
+  let summary = 'Earlier in this conversation (older turns omitted for length) the user asked:';
+  // Newest first, so the most relevant questions survive the cut
+  for (const question of [...questions].reverse()) {
+    const line = `\n- ${question.content.replace(/\s+/g, ' ').slice(0, SUMMARY_QUESTION_LENGTH)}`;
+    if (summary.length + line.length > maxChars) break;
+    summary += line;
+  }
+  return summary;
+};
+
+/**
+ * Turns the chat transcript into alternating user/assistant turns for the model.
+ * The last message is always kept; older turns are dropped once they exceed the
+ * token budget and replaced by a brief note listing the dropped questions.
+ */
+export const buildHistory = (messages: Message[], tokenBudget: number): HistoryTurn[] => {
+  const turns = mergeTurns(
+    messages
+      // A blocked answer with nothing to show would be an empty turn, which providers reject
+      .filter((message) => message.text || message.chartData)
+      .map((message) => ({
+        role: message.sender === 'user' ? 'user' : 'assistant',
+        content: toTurnContent(message),
+      })),
+  );
+
+  // Providers expect the conversation to open with the user, so drop the greeting
+  while (turns.length > 0 && turns[0].role === 'assistant') {
+    turns.shift();
+  }
+  if (turns.length === 0) return [];
+
+  const kept: HistoryTurn[] = [turns[turns.length - 1]];
+  let usedTokens = 0;
+  let index = turns.length - 2;
+  for (; index >= 0; index--) {
+    const cost = estimateTokens(turns[index].content);
+    if (usedTokens + cost > tokenBudget) break;
+    usedTokens += cost;
+    kept.unshift(turns[index]);
+  }
+
+  const dropped = turns.slice(0, index + 1);
+  const summary = summarizeDroppedTurns(dropped, tokenBudget);
+  if (summary) {
+    kept.unshift({ role: 'user', content: summary });
+  }
+
+  // Trimming can leave the oldest kept turn as an assistant reply or split a pair
+  while (kept.length > 0 && kept[0].role === 'assistant') {
+    kept.shift();
+  }
+  return mergeTurns(kept);
+};
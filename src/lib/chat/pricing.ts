@@ -0,0 +1,45 @@
+import type { TokenUsage } from './providers/types';
+
+// US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Published list prices when this table was written. They change, and
+// discounts differ per account, which is why users can edit them.
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'gemini-2.0-flash-exp': { input: 0, output: 0 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-opus-4-1': { input: 15, output: 75 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+};
+
+/** Undefined when the model has no price in the table. */
+export const estimateCost = (usage: TokenUsage, price: ModelPrice | undefined): number | undefined =>
+  price ? (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000 : undefined;
+
+// Single answers usually cost fractions of a cent, so small amounts keep more digits
+export const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+
+export const formatTokens = (count: number) => count.toLocaleString();
+
+// Combines the usage of an answer and its continuations
+export const addUsage = (a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined =>
+  a && b
+    ? {
+        promptTokens: a.promptTokens + b.promptTokens,
+        completionTokens: a.completionTokens + b.completionTokens,
+        totalTokens: a.totalTokens + b.totalTokens,
+      }
+    : a ?? b;
@@ -0,0 +1,180 @@
+import { ChatError, type ChatErrorKind } from '../errors';
+import type { HistoryTurn } from '../history';
+import type { ChatProvider, FinishReason, ProviderChunk, ToolRound } from './types';
+
+// Anthropic requires strictly alternating turns starting with the user, which buildHistory guarantees
+export const toAnthropicMessages = (turns: HistoryTurn[]) =>
+  turns.map((turn) => ({ role: turn.role, content: turn.content }));
+
+// Each round adds an assistant turn with the calls and a user turn with the results, keeping the alternation
+const toAnthropicToolMessages = (rounds: ToolRound[] = []) =>
+  rounds.flatMap((round) => [
+    {
+      role: 'assistant',
+      content: [
+        ...(round.text ? [{ type: 'text', text: round.text }] : []),
+        ...round.calls.map((call) => ({ type: 'tool_use', id: call.id, name: call.name, input: call.args })),
+      ],
+    },
+    {
+      role: 'user',
+      content: round.results.map((result) => ({ type: 'tool_result', tool_use_id: result.callId, content: result.content })),
+    },
+  ]);
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  content_block?: AnthropicContentBlock;
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string };
+  error?: { type?: string; message?: string };
+  message?: { usage?: AnthropicUsage };
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicResponse {
+  content?: AnthropicContentBlock[];
+  stop_reason?: string;
+  usage?: AnthropicUsage;
+}
+
+const STOP_REASONS: Record<string, FinishReason> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  refusal: 'safety',
+};
+
+const toFinishReason = (reason: string | undefined): FinishReason | undefined =>
+  reason ? STOP_REASONS[reason] ?? 'other' : undefined;
+
+// Input tokens arrive with message_start, the running output count with each message_delta
+const toUsage = (usage: AnthropicUsage | undefined): ProviderChunk['usage'] => {
+  if (!usage) return undefined;
+  return {
+    ...(usage.input_tokens !== undefined && { promptTokens: usage.input_tokens }),
+    ...(usage.output_tokens !== undefined && { completionTokens: usage.output_tokens }),
+  };
+};
+
+const STREAM_ERROR_KINDS: Record<string, ChatErrorKind> = {
+  overloaded_error: 'server',
+  api_error: 'server',
+  rate_limit_error: 'quota',
+  authentication_error: 'invalid-key',
+  permission_error: 'invalid-key',
+};
+
+const parseStreamEvent = (data: string): ProviderChunk => {
+  const event: AnthropicStreamEvent = JSON.parse(data);
+  switch (event.type) {
+    case 'message_start':
+      return { usage: toUsage(event.message?.usage) };
+    case 'content_block_start':
+      // A tool call opens with its name; the arguments follow as JSON fragments
+      return event.content_block?.type === 'tool_use'
+        ? { toolCallDeltas: [{ index: event.index, id: event.content_block.id, name: event.content_block.name }] }
+        : {};
+    case 'content_block_delta':
+      if (event.delta?.type === 'input_json_delta') {
+        return { toolCallDeltas: [{ index: event.index, arguments: event.delta.partial_json }] };
+      }
+      return { text: event.delta?.type === 'text_delta' ? event.delta.text : undefined };
+    case 'message_delta':
+      return { finishReason: toFinishReason(event.delta?.stop_reason), usage: toUsage(event.usage) };
+    case 'message_stop':
+      return { done: true };
+    case 'error':
+      // Errors can arrive mid-stream after a 200, e.g. when the API is overloaded
+      throw new ChatError(
+        STREAM_ERROR_KINDS[event.error?.type] ?? 'bad-request',
+        `Anthropic API error: ${event.error?.message || event.error?.type || 'unknown error'}`,
+      );
+    default:
+      return {};
+  }
+};
+
+const buildHeaders = (apiKey: string) => ({
+  'x-api-key': apiKey,
+  'anthropic-version': '2023-06-01',
+  // Keys are entered by the user and stay in their browser, which is what this header acknowledges
+  'anthropic-dangerous-direct-browser-access': 'true',
+});
+
+export const anthropicProvider: ChatProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  label: 'Anthropic Claude',
+  defaultModel: 'claude-sonnet-4-5',
+  fallbackModels: ['claude-sonnet-4-5', 'claude-opus-4-1', 'claude-3-5-haiku-latest'],
+  capabilities: {
+    streaming: true,
+    systemRole: true,
+    jsonMode: false,
+    vision: true,
+    toolCalling: true,
+    contextWindow: 200000,
+  },
+  apiKey: {
+    required: true,
+    prompt: 'Enter your Anthropic API key:',
+    placeholder: 'sk-ant-...',
+    helpText: 'Get your Anthropic API key at',
+    helpUrl: 'https://console.anthropic.com/settings/keys',
+    helpLabel: 'Anthropic Console',
+  },
+  buildRequest: (request, { apiKey }) => ({
+    url: 'https://api.anthropic.com/v1/messages',
+    headers: {
+      ...buildHeaders(apiKey),
+      'Content-Type': 'application/json',
+    },
+    body: {
+      model: request.model,
+      system: request.systemPrompt,
+      messages: [...toAnthropicMessages(request.history), ...toAnthropicToolMessages(request.toolRounds)],
+      ...(request.tools?.length
+        ? {
+            tools: request.tools.map(({ name, description, parameters }) => ({ name, description, input_schema: parameters })),
+            tool_choice: { type: request.toolChoice ?? 'auto' },
+          }
+        : {}),
+      max_tokens: request.maxOutputTokens,
+      // Newer Claude models reject requests that set both, so top_p only replaces temperature when narrowed
+      ...(request.topP < 1 ? { top_p: request.topP } : { temperature: request.temperature }),
+      stream: true,
+    },
+  }),
+  buildModelsRequest: ({ apiKey }) => ({
+    url: 'https://api.anthropic.com/v1/models?limit=100',
+    headers: buildHeaders(apiKey),
+  }),
+  parseModels: (data) => ((data as { data?: { id: string }[] }).data ?? []).map((model) => model.id),
+  parseStreamEvent,
+  parseResponse: (data) => ({
+    text: ((data as AnthropicResponse).content ?? [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join(''),
+    toolCalls: ((data as AnthropicResponse).content ?? [])
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => ({ id: block.id, name: block.name, args: block.input ?? {} })),
+    done: true,
+    finishReason: toFinishReason((data as AnthropicResponse).stop_reason),
+    usage: toUsage((data as AnthropicResponse).usage),
+  }),
+};
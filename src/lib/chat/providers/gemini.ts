@@ -0,0 +1,235 @@
+import type { HistoryTurn } from '../history';
+import { createGeminiEmbedder } from '@/lib/retrieval/embeddings';
+import type {
+  ChatProvider,
+  ContentBlock,
+  FinishReason,
+  ProviderChunk,
+  SafetySettings,
+  SafetyThreshold,
+  ToolDefinition,
+  ToolRound,
+} from './types';
+
+export const toGeminiContents = (turns: HistoryTurn[]) =>
+  turns.map((turn) => ({
+    role: turn.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: turn.content }],
+  }));
+
+// Gemini rejects an object schema without properties, so tools without arguments declare none
+const toFunctionDeclaration = ({ name, description, parameters }: ToolDefinition) =>
+  Object.keys(parameters.properties ?? {}).length > 0 ? { name, description, parameters } : { name, description };
+
+const toGeminiToolContents = (rounds: ToolRound[] = []) =>
+  rounds.flatMap((round) => [
+    {
+      role: 'model',
+      parts: [
+        ...(round.text ? [{ text: round.text }] : []),
+        ...round.calls.map((call) => ({
+          functionCall: { name: call.name, args: call.args },
+          ...(call.signature ? { thoughtSignature: call.signature } : {}),
+        })),
+      ],
+    },
+    {
+      role: 'user',
+      parts: round.results.map((result) => ({
+        functionResponse: { name: result.name, response: { content: result.content } },
+      })),
+    },
+  ]);
+
+interface GeminiModel {
+  name: string;
+  supportedGenerationMethods?: string[];
+}
+
+interface GeminiSafetyRating {
+  category?: string;
+  probability?: string;
+  blocked?: boolean;
+}
+
+interface GeminiPart {
+  text?: string;
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+  thoughtSignature?: string;
+}
+
+interface GeminiResponse {
+  candidates?: {
+    content?: { parts?: GeminiPart[] };
+    finishReason?: string;
+    safetyRatings?: GeminiSafetyRating[];
+  }[];
+  promptFeedback?: { blockReason?: string; safetyRatings?: GeminiSafetyRating[] };
+  // Cumulative in every streamed chunk
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    // Thinking models bill their reasoning as output
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+// The finish reasons that mean one of Gemini's content filters stopped the answer
+const SAFETY_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+const toFinishReason = (reason: string | undefined): FinishReason | undefined => {
+  if (!reason) return undefined;
+  if (reason === 'STOP') return 'stop';
+  if (reason === 'MAX_TOKENS') return 'length';
+  return SAFETY_FINISH_REASONS.includes(reason) ? 'safety' : 'other';
+};
+
+// The categories that can be tuned through safetySettings
+const SAFETY_CATEGORIES = [
+  { id: 'HARM_CATEGORY_HARASSMENT', label: 'Harassment' },
+  { id: 'HARM_CATEGORY_HATE_SPEECH', label: 'Hate speech' },
+  { id: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', label: 'Sexually explicit' },
+  { id: 'HARM_CATEGORY_DANGEROUS_CONTENT', label: 'Dangerous content' },
+  { id: 'HARM_CATEGORY_CIVIC_INTEGRITY', label: 'Civic integrity' },
+];
+
+const THRESHOLDS: Record<Exclude<SafetyThreshold, 'default'>, string> = {
+  none: 'BLOCK_NONE',
+  high: 'BLOCK_ONLY_HIGH',
+  medium: 'BLOCK_MEDIUM_AND_ABOVE',
+  low: 'BLOCK_LOW_AND_ABOVE',
+};
+
+const toGeminiSafetySettings = (settings: SafetySettings = {}) =>
+  Object.entries(settings)
+    .filter(([, threshold]) => threshold !== 'default')
+    .map(([category, threshold]) => ({ category, threshold: THRESHOLDS[threshold] }));
+
+// HARM_CATEGORY_DANGEROUS_CONTENT -> Dangerous content, for categories missing from the list above
+const toCategoryLabel = (category: string) => {
+  const known = SAFETY_CATEGORIES.find((option) => option.id === category);
+  if (known) return known.label;
+  const words = category.replace(/^HARM_CATEGORY_/, '').toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Ratings flag the category that was blocked; older models only rate how likely each harm was
+const toBlockedCategories = (ratings: GeminiSafetyRating[] = []) => {
+  const flagged = ratings.filter((rating) => rating.blocked);
+  const likely = flagged.length > 0 ? flagged : ratings.filter((rating) => ['MEDIUM', 'HIGH'].includes(rating.probability));
+  return likely.filter((rating) => rating.category).map((rating) => toCategoryLabel(rating.category));
+};
+
+const toBlock = (response: GeminiResponse): ContentBlock | undefined => {
+  // A blocked prompt still comes back as 200, with no candidates at all
+  const promptFeedback = response.promptFeedback;
+  if (promptFeedback?.blockReason) {
+    return {
+      stage: 'prompt',
+      reason: promptFeedback.blockReason,
+      categories: toBlockedCategories(promptFeedback.safetyRatings),
+    };
+  }
+  const candidate = response.candidates?.[0];
+  if (SAFETY_FINISH_REASONS.includes(candidate?.finishReason)) {
+    return {
+      stage: 'response',
+      reason: candidate.finishReason,
+      categories: toBlockedCategories(candidate.safetyRatings),
+    };
+  }
+  return undefined;
+};
+
+const toChunk = (response: GeminiResponse): ProviderChunk => {
+  const blocked = toBlock(response);
+  if (blocked?.stage === 'prompt') return { blocked, finishReason: 'safety', done: true };
+
+  const candidate = response.candidates?.[0];
+  const parts = candidate?.content?.parts ?? [];
+  const text = parts.map((part) => part.text ?? '').join('');
+  // Gemini sends every function call whole, never split across events
+  const toolCalls = parts
+    .filter((part) => part.functionCall)
+    .map((part) => ({
+      id: part.functionCall.id,
+      name: part.functionCall.name,
+      args: part.functionCall.args ?? {},
+      signature: part.thoughtSignature,
+    }));
+  const finishReason = toFinishReason(candidate?.finishReason);
+  const usage = response.usageMetadata;
+  if (!usage) return { text, finishReason, blocked, toolCalls };
+
+  const promptTokens = usage.promptTokenCount ?? 0;
+  const completionTokens = (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0);
+  return {
+    text,
+    finishReason,
+    blocked,
+    toolCalls,
+    usage: { promptTokens, completionTokens, totalTokens: usage.totalTokenCount ?? promptTokens + completionTokens },
+  };
+};
+
+export const geminiProvider: ChatProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  label: 'Google Gemini (Free)',
+  defaultModel: 'gemini-2.0-flash-exp',
+  fallbackModels: ['gemini-2.0-flash-exp', 'gemini-2.0-flash', 'gemini-1.5-pro', 'gemini-1.5-flash'],
+  capabilities: {
+    streaming: true,
+    systemRole: true,
+    jsonMode: true,
+    vision: true,
+    toolCalling: true,
+    contextWindow: 1048576,
+  },
+  safetyCategories: SAFETY_CATEGORIES,
+  apiKey: {
+    required: true,
+    prompt: 'Enter your Google AI Studio API key:',
+    placeholder: 'AIza...',
+    helpText: 'Get your free Gemini API key at',
+    helpUrl: 'https://aistudio.google.com/app/apikey',
+    helpLabel: 'Google AI Studio',
+  },
+  buildRequest: (request, { apiKey }) => ({
+    url: `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(request.model)}:streamGenerateContent?alt=sse&key=${encodeURIComponent(apiKey)}`,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: {
+      systemInstruction: {
+        parts: [{ text: request.systemPrompt }],
+      },
+      contents: [...toGeminiContents(request.history), ...toGeminiToolContents(request.toolRounds)],
+      ...(request.tools?.length
+        ? {
+            tools: [{ functionDeclarations: request.tools.map(toFunctionDeclaration) }],
+            toolConfig: { functionCallingConfig: { mode: request.toolChoice === 'none' ? 'NONE' : 'AUTO' } },
+          }
+        : {}),
+      safetySettings: toGeminiSafetySettings(request.safetySettings),
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        topP: request.topP,
+      },
+    },
+  }),
+  buildModelsRequest: ({ apiKey }) => ({
+    url: `https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(apiKey)}`,
+    headers: {},
+  }),
+  parseModels: (data) =>
+    ((data as { models?: GeminiModel[] }).models ?? [])
+      .filter((model) => model.supportedGenerationMethods?.includes('generateContent'))
+      .map((model) => model.name.replace(/^models\//, ''))
+      .sort(),
+  parseStreamEvent: (data) => toChunk(JSON.parse(data)),
+  parseResponse: (data) => ({ ...toChunk(data as GeminiResponse), done: true }),
+  createEmbedder: createGeminiEmbedder,
+};
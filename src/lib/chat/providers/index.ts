@@ -0,0 +1,41 @@
+import { anthropicProvider } from './anthropic';
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { openAIProvider } from './openai';
+import { openAICompatibleProvider } from './openai-compatible';
+import type { AIProvider, ChatProvider } from './types';
+
+export type {
+  AIProvider,
+  ChatProvider,
+  ChatRequest,
+  ContentBlock,
+  FinishReason,
+  GenerationParams,
+  JsonSchema,
+  ProviderCapabilities,
+  ProviderConnection,
+  SafetySettings,
+  SafetyThreshold,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+  ToolRound,
+} from './types';
+
+// Order here is the order shown in the provider picker
+const PROVIDERS: ChatProvider[] = [
+  geminiProvider,
+  openAIProvider,
+  anthropicProvider,
+  openAICompatibleProvider,
+  // Scripted replies for working offline; import.meta.env is missing outside Vite, e.g. in the proxy server
+  ...(import.meta.env?.DEV ? [mockProvider] : []),
+];
+
+export const DEFAULT_PROVIDER: AIProvider = 'gemini';
+
+export const listProviders = (): ChatProvider[] => PROVIDERS;
+
+export const getProvider = (id: AIProvider): ChatProvider =>
+  PROVIDERS.find((provider) => provider.id === id) ?? PROVIDERS.find((provider) => provider.id === DEFAULT_PROVIDER);
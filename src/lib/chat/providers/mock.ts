@@ -0,0 +1,179 @@
+import { estimateTokens } from '../history';
+import fixtures from './mock-fixtures.json';
+import type { ChatProvider, ChatRequest, ContentBlock, FinishReason, ProviderChunk } from './types';
+
+/**
+ * Scripted replies for the mock provider. The first rule whose `match`
+ * pattern (case-insensitive) finds the latest question decides the reply;
+ * `{question}` in a reply or tool argument is replaced with the question
+ * itself, and `{toolResult}` with the start of what the last tool returned.
+ */
+export interface MockFixtures {
+  chunkDelayMs: number;
+  wordsPerChunk: number;
+  rules: MockRule[];
+  default: MockReply;
+}
+
+export interface MockReply {
+  reply?: string;
+  finishReason?: FinishReason;
+  // Answered with this HTTP status instead, so the usual error handling kicks in
+  error?: { status: number; message: string; retryAfterSeconds?: number };
+  blocked?: ContentBlock;
+  // Called first when tools are offered; the reply follows once their results are in
+  toolCalls?: { name: string; args: Record<string, unknown> }[];
+}
+
+export interface MockRule extends MockReply {
+  match: string;
+}
+
+const MOCK_CHAT_URL = 'mock://chat';
+const MOCK_MODELS_URL = 'mock://models';
+const MOCK_MODEL = 'mock-scripted';
+
+const pickReply = ({ rules, default: fallback }: MockFixtures, question: string): MockReply =>
+  rules.find((rule) => new RegExp(rule.match, 'i').test(question)) ?? fallback;
+
+// Splits after whitespace so the chunks join back into exactly the original text
+const toChunks = (text: string, wordsPerChunk: number): string[] => {
+  const words = text.match(/\S+\s*|\s+/g) ?? [];
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += wordsPerChunk) {
+    chunks.push(words.slice(i, i + wordsPerChunk).join(''));
+  }
+  return chunks;
+};
+
+const fillIn = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+
+const fillInArgs = (args: Record<string, unknown>, values: Record<string, string>) =>
+  Object.fromEntries(
+    Object.entries(args).map(([name, value]) => [name, typeof value === 'string' ? fillIn(value, values) : value]),
+  );
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const toEvents = (request: ChatRequest, reply: MockReply, wordsPerChunk: number): ProviderChunk[] => {
+  const question = request.history[request.history.length - 1]?.content ?? '';
+  const lastRound = request.toolRounds?.[request.toolRounds.length - 1];
+  const values = {
+    question: question.replace(/\s+/g, ' ').slice(0, 200),
+    toolResult: lastRound?.results[0]?.content.slice(0, 300) ?? '',
+  };
+  const promptTokens = estimateTokens(request.systemPrompt + request.history.map((turn) => turn.content).join(''));
+  if (reply.blocked?.stage === 'prompt') {
+    return [{ blocked: reply.blocked, finishReason: 'safety', usage: { promptTokens, completionTokens: 0 }, done: true }];
+  }
+
+  const callTools = reply.toolCalls && request.tools?.length && !lastRound && request.toolChoice !== 'none';
+  if (callTools) {
+    const toolCalls = reply.toolCalls.map((call, i) => ({ id: `mock-call-${request.toolRounds?.length ?? 0}-${i}`, name: call.name, args: fillInArgs(call.args, values) }));
+    return [{ toolCalls }, { finishReason: 'stop', usage: { promptTokens, completionTokens: 0 }, done: true }];
+  }
+
+  let text = fillIn(reply.reply ?? '', values);
+  let finishReason = reply.finishReason ?? (reply.blocked ? 'safety' : 'stop');
+  // Honour the output limit like a real model would, so the setting can be tried out too
+  if (estimateTokens(text) > request.maxOutputTokens) {
+    text = text.slice(0, request.maxOutputTokens * 4);
+    finishReason = 'length';
+  }
+
+  return [
+    ...toChunks(text, wordsPerChunk).map((chunk) => ({ text: chunk })),
+    {
+      finishReason,
+      blocked: reply.blocked,
+      usage: { promptTokens, completionTokens: estimateTokens(text) },
+      done: true,
+    },
+  ];
+};
+
+// Streams the events as server-sent events with a delay between them, stopping when aborted
+const streamEvents = (events: ProviderChunk[], delayMs: number, signal?: AbortSignal) => {
+  const encoder = new TextEncoder();
+  let index = 0;
+  let timer: ReturnType<typeof setTimeout>;
+  return new ReadableStream<Uint8Array>({
+    start: (controller) => {
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        controller.error(signal.reason);
+      }, { once: true });
+    },
+    pull: (controller) =>
+      new Promise<void>((resolve) => {
+        timer = setTimeout(() => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(events[index++])}\n\n`));
+          if (index >= events.length) controller.close();
+          resolve();
+        }, delayMs);
+      }),
+  });
+};
+
+/**
+ * Answers the mock provider's requests in the browser, without any network.
+ * The returned function takes the same arguments as fetch so the engine can
+ * use either; tests can pass their own fixtures.
+ */
+export const createMockTransport = (mockFixtures: MockFixtures = fixtures as MockFixtures) => async (
+  url: string,
+  init: RequestInit = {},
+): Promise<Response> => {
+  if (init.signal?.aborted) throw init.signal.reason;
+  if (url === MOCK_MODELS_URL) return jsonResponse(200, { models: [MOCK_MODEL] });
+  if (url !== MOCK_CHAT_URL) return jsonResponse(404, { error: { message: `Unknown mock endpoint ${url}` } });
+
+  const request: ChatRequest = JSON.parse(String(init.body));
+  const question = request.history[request.history.length - 1]?.content ?? '';
+  const reply = pickReply(mockFixtures, question);
+  if (reply.error) {
+    const { status, message, retryAfterSeconds } = reply.error;
+    const headers = retryAfterSeconds !== undefined ? { 'Retry-After': String(retryAfterSeconds) } : {};
+    return jsonResponse(status, { error: { message } }, headers);
+  }
+
+  const events = toEvents(request, reply, mockFixtures.wordsPerChunk);
+  return new Response(streamEvents(events, mockFixtures.chunkDelayMs, init.signal ?? undefined), {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+};
+
+export const mockProvider: ChatProvider = {
+  id: 'mock',
+  name: 'Mock',
+  label: 'Mock (scripted replies, development only)',
+  defaultModel: MOCK_MODEL,
+  fallbackModels: [MOCK_MODEL],
+  capabilities: {
+    streaming: true,
+    systemRole: true,
+    jsonMode: false,
+    vision: false,
+    toolCalling: true,
+    contextWindow: 32000,
+  },
+  apiKey: {
+    required: false,
+    prompt: 'No API key needed:',
+    placeholder: 'Not used',
+    // Never shown, since no key is required
+    helpText: '',
+    helpUrl: '',
+    helpLabel: '',
+  },
+  // The engine's request, passed through unchanged so the transport can read it
+  buildRequest: (request) => ({ url: MOCK_CHAT_URL, headers: { 'Content-Type': 'application/json' }, body: request }),
+  buildModelsRequest: () => ({ url: MOCK_MODELS_URL, headers: {} }),
+  parseModels: (data) => (data as { models?: string[] }).models ?? [],
+  parseStreamEvent: (data) => JSON.parse(data),
+  parseResponse: (data) => ({ ...(data as ProviderChunk), done: true }),
+  transport: createMockTransport(),
+};
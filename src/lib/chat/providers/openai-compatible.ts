@@ -0,0 +1,61 @@
+import { buildOpenAIChatBody, parseOpenAIModels, parseOpenAIResponse, parseOpenAIStreamEvent } from './openai';
+import type { ChatProvider } from './types';
+
+// Ollama's default; LM Studio uses :1234 and llama.cpp's server :8080
+export const DEFAULT_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Accepts both "http://host:port" and "http://host:port/v1", since servers
+ * document their base URL either way.
+ */
+export const resolveCompatibleEndpoint = (baseUrl: string, path: string): string => {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  const versioned = /\/v\d+$/.test(trimmed) ? trimmed : `${trimmed}/v1`;
+  return `${versioned}${path}`;
+};
+
+export const openAICompatibleProvider: ChatProvider = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible server',
+  label: 'OpenAI-compatible (Ollama, LM Studio, llama.cpp)',
+  // Self-hosted servers have no common model, the user names one
+  defaultModel: '',
+  fallbackModels: [],
+  capabilities: {
+    streaming: true,
+    systemRole: true,
+    jsonMode: false,
+    vision: false,
+    // Depends on the model and server, so it is not assumed
+    toolCalling: false,
+    // Conservative: many local models are served with small contexts
+    contextWindow: 8192,
+  },
+  apiKey: {
+    required: false,
+    prompt: 'API key (optional):',
+    placeholder: 'Leave empty if your server does not check keys',
+    helpText: 'Works with any server that implements the OpenAI Chat Completions API, such as',
+    helpUrl: 'https://ollama.com',
+    helpLabel: 'Ollama',
+  },
+  baseUrl: {
+    default: DEFAULT_COMPATIBLE_BASE_URL,
+    placeholder: DEFAULT_COMPATIBLE_BASE_URL,
+  },
+  buildRequest: (request, { apiKey, baseUrl }) => ({
+    url: resolveCompatibleEndpoint(baseUrl || DEFAULT_COMPATIBLE_BASE_URL, '/chat/completions'),
+    headers: {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: buildOpenAIChatBody(request),
+  }),
+  buildModelsRequest: ({ apiKey, baseUrl }) => ({
+    url: resolveCompatibleEndpoint(baseUrl || DEFAULT_COMPATIBLE_BASE_URL, '/models'),
+    headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+  }),
+  parseModels: parseOpenAIModels,
+  parseStreamEvent: parseOpenAIStreamEvent,
+  parseResponse: parseOpenAIResponse,
+};
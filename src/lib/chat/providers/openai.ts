@@ -0,0 +1,158 @@
+import type { HistoryTurn } from '../history';
+import { createOpenAIEmbedder } from '@/lib/retrieval/embeddings';
+import type { ChatProvider, ChatRequest, FinishReason, ProviderChunk, ToolCallDelta, ToolRound } from './types';
+
+export const toOpenAIMessages = (systemPrompt: string, turns: HistoryTurn[]) => [
+  { role: 'system', content: systemPrompt },
+  ...turns.map((turn) => ({ role: turn.role, content: turn.content })),
+];
+
+interface OpenAIToolCall {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAIChoice {
+  delta?: { content?: string; tool_calls?: OpenAIToolCall[] };
+  message?: { content?: string; tool_calls?: OpenAIToolCall[] };
+  finish_reason?: string | null;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface OpenAIResponse {
+  choices?: OpenAIChoice[];
+  usage?: OpenAIUsage | null;
+}
+
+const FINISH_REASONS: Record<string, FinishReason> = {
+  stop: 'stop',
+  length: 'length',
+  content_filter: 'safety',
+};
+
+const toFinishReason = (choice: OpenAIChoice | undefined): FinishReason | undefined =>
+  choice?.finish_reason ? FINISH_REASONS[choice.finish_reason] ?? 'other' : undefined;
+
+const toUsage = (usage: OpenAIUsage | null | undefined): ProviderChunk['usage'] =>
+  usage
+    ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens, totalTokens: usage.total_tokens }
+    : undefined;
+
+// Streamed calls carry their index; a whole response lists them in order
+const toToolCallDeltas = (calls: OpenAIToolCall[] | undefined): ToolCallDelta[] | undefined =>
+  calls?.map((call, i) => ({
+    index: call.index ?? i,
+    id: call.id,
+    name: call.function?.name,
+    arguments: call.function?.arguments,
+  }));
+
+const toOpenAIToolMessages = (rounds: ToolRound[] = []) =>
+  rounds.flatMap((round) => [
+    {
+      role: 'assistant',
+      content: round.text || null,
+      tool_calls: round.calls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.args) },
+      })),
+    },
+    ...round.results.map((result) => ({ role: 'tool', tool_call_id: result.callId, content: result.content })),
+  ]);
+
+// Shared with every server that speaks the /v1/chat/completions dialect
+export const buildOpenAIChatBody = (request: ChatRequest) => ({
+  model: request.model,
+  messages: [...toOpenAIMessages(request.systemPrompt, request.history), ...toOpenAIToolMessages(request.toolRounds)],
+  ...(request.tools?.length
+    ? {
+        tools: request.tools.map((tool) => ({ type: 'function', function: tool })),
+        tool_choice: request.toolChoice ?? 'auto',
+      }
+    : {}),
+  max_tokens: request.maxOutputTokens,
+  temperature: request.temperature,
+  top_p: request.topP,
+  stream: true,
+  // Adds a final chunk with token counts; servers that do not know the option ignore it
+  stream_options: { include_usage: true },
+});
+
+export const parseOpenAIModels = (data: unknown): string[] =>
+  ((data as { data?: { id: string }[] }).data ?? []).map((model) => model.id).sort();
+
+// The models endpoint also lists embedding, audio and image models
+const isChatModel = (id: string) => /^(gpt-|o\d|chatgpt-)/.test(id) && !/(audio|realtime|transcribe|tts|image|search)/.test(id);
+
+export const parseOpenAIStreamEvent = (data: string): ProviderChunk => {
+  if (data === '[DONE]') return { done: true };
+  const event: OpenAIResponse = JSON.parse(data);
+  const choice = event.choices?.[0];
+  return {
+    text: choice?.delta?.content,
+    finishReason: toFinishReason(choice),
+    usage: toUsage(event.usage),
+    toolCallDeltas: toToolCallDeltas(choice?.delta?.tool_calls),
+  };
+};
+
+export const parseOpenAIResponse = (data: unknown): ProviderChunk => {
+  const response = data as OpenAIResponse;
+  const choice = response.choices?.[0];
+  return {
+    text: choice?.message?.content,
+    done: true,
+    finishReason: toFinishReason(choice),
+    usage: toUsage(response.usage),
+    toolCallDeltas: toToolCallDeltas(choice?.message?.tool_calls),
+  };
+};
+
+export const openAIProvider: ChatProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  label: 'OpenAI GPT-4o',
+  defaultModel: 'gpt-4o',
+  fallbackModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini', 'o4-mini'],
+  capabilities: {
+    streaming: true,
+    systemRole: true,
+    jsonMode: true,
+    vision: true,
+    toolCalling: true,
+    contextWindow: 128000,
+  },
+  apiKey: {
+    required: true,
+    prompt: 'Enter your OpenAI API key:',
+    placeholder: 'sk-...',
+    helpText: 'Get your OpenAI API key at',
+    helpUrl: 'https://platform.openai.com/api-keys',
+    helpLabel: 'OpenAI Platform',
+  },
+  buildRequest: (request, { apiKey }) => ({
+    url: 'https://api.openai.com/v1/chat/completions',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: buildOpenAIChatBody(request),
+  }),
+  buildModelsRequest: ({ apiKey }) => ({
+    url: 'https://api.openai.com/v1/models',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+    },
+  }),
+  parseModels: (data) => parseOpenAIModels(data).filter(isChatModel),
+  parseStreamEvent: parseOpenAIStreamEvent,
+  parseResponse: parseOpenAIResponse,
+  createEmbedder: createOpenAIEmbedder,
+};
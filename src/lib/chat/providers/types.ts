@@ -0,0 +1,159 @@
+import type { HistoryTurn } from '../history';
+import type { Embedder } from '@/lib/retrieval/embeddings';
+
+export type AIProvider = 'openai' | 'gemini' | 'anthropic' | 'openai-compatible' | 'mock';
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  // Whether the API takes a dedicated system prompt rather than a first user turn
+  systemRole: boolean;
+  jsonMode: boolean;
+  vision: boolean;
+  // Whether the API can call functions we declare, e.g. to search the document
+  toolCalling: boolean;
+  // Total tokens the default model accepts, prompt and completion combined
+  contextWindow: number;
+}
+
+export interface GenerationParams {
+  temperature: number;
+  maxOutputTokens: number;
+  topP: number;
+}
+
+// How readily a content filter blocks a harm category; 'default' leaves it to the provider
+export type SafetyThreshold = 'default' | 'none' | 'high' | 'medium' | 'low';
+
+// Keyed by the provider's own category ids, see ChatProvider.safetyCategories
+export type SafetySettings = Record<string, SafetyThreshold>;
+
+// The JSON Schema subset that OpenAI, Gemini and Anthropic all accept for tool parameters
+export interface JsonSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  // Gemini's thoughtSignature, which must be sent back with the call
+  signature?: string;
+}
+
+// Providers that stream a call piece by piece send fragments keyed by index
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  // Appended in order until the call is complete
+  arguments?: string;
+}
+
+// One exchange of the tool loop: what the model said and called, and what the tools returned
+export interface ToolRound {
+  text: string;
+  calls: ToolCall[];
+  results: { callId: string; name: string; content: string }[];
+}
+
+export interface ChatRequest extends GenerationParams {
+  model: string;
+  systemPrompt: string;
+  history: HistoryTurn[];
+  safetySettings?: SafetySettings;
+  tools?: ToolDefinition[];
+  // 'none' asks for a final answer once the tool loop has run its course
+  toolChoice?: 'auto' | 'none';
+  // Sent after the history, in the provider's own tool message format
+  toolRounds?: ToolRound[];
+}
+
+export interface ProviderConnection {
+  apiKey: string;
+  // Only used by providers with a configurable endpoint
+  baseUrl?: string;
+}
+
+export interface ProviderHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Why the model stopped; 'length' means it ran into the output token limit mid-answer
+export type FinishReason = 'stop' | 'length' | 'safety' | 'other';
+
+// A provider's content filter refused the question or stopped the answer part way
+export interface ContentBlock {
+  stage: 'prompt' | 'response';
+  // The provider's code, e.g. SAFETY or RECITATION
+  reason: string;
+  // Readable names of the harm categories that triggered it, when the provider says
+  categories: string[];
+}
+
+// What one streamed event (or a whole non-streamed response) contributes to the answer
+export interface ProviderChunk {
+  text?: string;
+  done?: boolean;
+  finishReason?: FinishReason;
+  // Token counts known so far; fields in later chunks replace earlier ones
+  usage?: Partial<TokenUsage>;
+  blocked?: ContentBlock;
+  // Calls that arrive whole, e.g. from Gemini; the engine numbers those without an id
+  toolCalls?: (Omit<ToolCall, 'id'> & { id?: string })[];
+  toolCallDeltas?: ToolCallDelta[];
+}
+
+export interface ChatProvider {
+  id: AIProvider;
+  // Short name used in messages, e.g. "OpenAI"
+  name: string;
+  // Longer label for the provider picker
+  label: string;
+  defaultModel: string;
+  // Offered when the list-models endpoint cannot be reached
+  fallbackModels: string[];
+  capabilities: ProviderCapabilities;
+  // Harm categories whose filter thresholds the user can adjust
+  safetyCategories?: { id: string; label: string }[];
+  apiKey: {
+    required: boolean;
+    prompt: string;
+    placeholder: string;
+    helpText: string;
+    helpUrl: string;
+    helpLabel: string;
+  };
+  // Present when the user points the provider at their own server
+  baseUrl?: {
+    default: string;
+    placeholder: string;
+  };
+  buildRequest: (request: ChatRequest, connection: ProviderConnection) => ProviderHttpRequest;
+  // GET request for the list-models endpoint, which doubles as a cheap key check
+  buildModelsRequest: (connection: ProviderConnection) => ProviderHttpRequest;
+  parseModels: (data: unknown) => string[];
+  parseStreamEvent: (data: string) => ProviderChunk;
+  parseResponse: (data: unknown) => ProviderChunk;
+  createEmbedder?: (apiKey: string) => Embedder;
+  // Answers requests in the browser instead of fetch, for providers with nothing to call over the network
+  transport?: (url: string, init: RequestInit) => Promise<Response>;
+}
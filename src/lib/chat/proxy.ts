@@ -0,0 +1,13 @@
+import type { AIProvider, ChatRequest } from './providers/types';
+
+// Same-origin path of the optional key-holding server (see server/index.ts)
+export const PROXY_CHAT_URL = '/api/chat';
+
+/**
+ * Body of POST /api/chat: exactly the request the browser would otherwise turn
+ * into a provider call itself, plus which provider to use. The server adds the
+ * key and relays the provider's response untouched, so it parses the same way.
+ */
+export interface ProxyChatRequest extends ChatRequest {
+  provider: AIProvider;
+}
@@ -0,0 +1,45 @@
+/**
+ * Yields the `data:` payload of every server-sent event in a streaming fetch
+ * response. Multi-line data fields are joined with newlines as the spec requires.
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let newline: number;
+      while ((newline = buffer.search(/\r\n|\r|\n/)) !== -1) {
+        // A trailing \r may be the first half of a \r\n split across reads
+        if (newline === buffer.length - 1 && buffer[newline] === '\r') break;
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + (buffer.startsWith('\r\n', newline) ? 2 : 1));
+
+        if (line === '') {
+          // A blank line terminates the event
+          if (data.length > 0) yield data.join('\n');
+          data = [];
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+        }
+        // Comments, event names and ids carry nothing we need
+      }
+    }
+
+    if (buffer.startsWith('data:')) {
+      data.push(buffer.slice(buffer.startsWith('data: ') ? 6 : 5));
+    }
+    if (data.length > 0) yield data.join('\n');
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,40 @@
+import type { ToolCall, ToolDefinition } from './providers/types';
+import type { ChartData, ToolStep } from './types';
+
+export interface ToolOutput {
+  // Sent back to the model as the call's result
+  content: string;
+  // Shown with the answer, for tools that draw
+  chartData?: ChartData;
+}
+
+export interface ChatTool extends ToolDefinition {
+  run: (args: Record<string, unknown>) => ToolOutput | Promise<ToolOutput>;
+}
+
+export const toToolDefinition = ({ name, description, parameters }: ChatTool): ToolDefinition => ({
+  name,
+  description,
+  parameters,
+});
+
+/**
+ * Runs one tool call from the model. Unknown tools and bad arguments are not
+ * errors for the user: the message goes back to the model so it can correct
+ * the call or answer without it.
+ */
+export const runToolCall = async (tools: ChatTool[], call: ToolCall): Promise<ToolStep> => {
+  const step = { id: call.id, name: call.name, args: call.args };
+  const tool = tools.find((candidate) => candidate.name === call.name);
+  if (!tool) {
+    const available = tools.map((candidate) => candidate.name).join(', ');
+    return { ...step, result: `Unknown tool "${call.name}". Available tools: ${available}.`, failed: true };
+  }
+
+  try {
+    const { content, chartData } = await tool.run(call.args);
+    return { ...step, result: content, chartData };
+  } catch (error) {
+    return { ...step, result: `Error: ${error instanceof Error ? error.message : String(error)}`, failed: true };
+  }
+};
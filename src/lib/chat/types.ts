@@ -0,0 +1,47 @@
+import type { AIProvider, ContentBlock, GenerationParams, TokenUsage } from './providers/types';
+
+export interface ChartData {
+  type: 'bar' | 'line' | 'pie';
+  title?: string;
+  data: Record<string, string | number>[];
+  xKey?: string;
+  yKey?: string;
+  dataKey?: string;
+}
+
+// A tool the model called while answering, e.g. a document search
+export interface ToolStep {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  // What the tool returned to the model
+  result: string;
+  chartData?: ChartData;
+  failed?: boolean;
+}
+
+// Which model and parameters produced an answer
+export interface GenerationRecord extends GenerationParams {
+  provider: AIProvider;
+  model: string;
+}
+
+export interface Message {
+  id: string;
+  text: string;
+  sender: 'user' | 'ai';
+  timestamp: Date;
+  chartData?: ChartData;
+  // Set while an AI answer is still arriving
+  isStreaming?: boolean;
+  // The user stopped the answer before it finished
+  interrupted?: boolean;
+  // The model hit the output token limit; the text is kept raw until continued
+  truncated?: boolean;
+  // A content filter refused the question or stopped the answer; any text is what arrived before
+  blocked?: ContentBlock;
+  toolSteps?: ToolStep[];
+  generation?: GenerationRecord;
+  // As reported by the provider, for answers that completed
+  usage?: TokenUsage;
+}
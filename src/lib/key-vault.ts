@@ -0,0 +1,74 @@
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+// 96-bit IVs are what AES-GCM is designed for
+const IV_BYTES = 12;
+
+export interface EncryptedVault {
+  version: 1;
+  salt: string;
+  iterations: number;
+  iv: string;
+  data: string;
+}
+
+export class VaultPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase');
+    this.name = 'VaultPassphraseError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    // Not extractable: the raw key never exists outside WebCrypto
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+export interface VaultKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+export const createVaultKey = async (passphrase: string): Promise<VaultKey> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS };
+};
+
+export const sealVault = async ({ key, salt, iterations }: VaultKey, value: unknown): Promise<EncryptedVault> => {
+  // A fresh IV for every write; reusing one with the same key breaks GCM
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { version: 1, salt: toBase64(salt), iterations, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/**
+ * Derives the key from the passphrase and decrypts the vault. GCM's
+ * authentication tag makes a wrong passphrase fail loudly rather than
+ * produce garbage, which is reported as VaultPassphraseError.
+ */
+export const openVault = async <T>(vault: EncryptedVault, passphrase: string): Promise<{ vaultKey: VaultKey; value: T }> => {
+  const salt = fromBase64(vault.salt);
+  const key = await deriveKey(passphrase, salt, vault.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.data));
+  } catch {
+    throw new VaultPassphraseError();
+  }
+  return {
+    vaultKey: { key, salt, iterations: vault.iterations },
+    value: JSON.parse(new TextDecoder().decode(plaintext)),
+  };
+};
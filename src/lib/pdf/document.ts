@@ -0,0 +1,128 @@
+// Form feed between pages, the same convention pdftotext uses
+export const PAGE_SEPARATOR = '\f';
+
+// All offsets index into ParsedDocument.text, end exclusive
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+  // In PDF points; absent for text recognized by OCR
+  fontSize?: number;
+}
+
+export interface DocumentBlock {
+  type: 'heading' | 'paragraph' | 'table';
+  // 1 to 3 for headings, from the most prominent
+  level?: number;
+  // For tables, the ID in ParsedDocument.tables
+  tableId?: string;
+  // One span per line; for tables, one per row with the cells separated by tabs
+  spans: TextSpan[];
+  start: number;
+  end: number;
+}
+
+export interface DocumentPage {
+  // 1-based
+  number: number;
+  blocks: DocumentBlock[];
+  // The text was recognized from a scan and may contain misread words
+  ocr: boolean;
+  start: number;
+  end: number;
+}
+
+export interface DocumentTable {
+  // T1, T2… in document order, for the user and the model to refer to
+  id: string;
+  page: number;
+  // Rows of cells, the first row being the header
+  cells: string[][];
+  start: number;
+  end: number;
+}
+
+export interface DocumentMetadata {
+  fileName: string;
+  pageCount: number;
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  createdAt?: Date;
+  modifiedAt?: Date;
+}
+
+export interface ParsedDocument {
+  metadata: DocumentMetadata;
+  pages: DocumentPage[];
+  tables: DocumentTable[];
+  // Every page's text, pages separated by PAGE_SEPARATOR; what retrieval indexes and offsets point into
+  text: string;
+}
+
+// A page as extraction produces it, before offsets are known
+export type BlockContent = Pick<DocumentBlock, 'type' | 'level'> & {
+  spans: Pick<TextSpan, 'text' | 'fontSize'>[];
+  // Set for tables
+  cells?: string[][];
+};
+
+export interface PageContent {
+  blocks: BlockContent[];
+  ocr?: boolean;
+}
+
+/**
+ * Lays the pages out as one text, blocks separated by a blank line and the
+ * lines of a block by \n, with headings marked the Markdown way and tables
+ * labelled with their ID so models see the structure. Records where every
+ * page, block and line landed, and numbers the tables.
+ */
+export const createParsedDocument = (
+  metadata: Omit<DocumentMetadata, 'pageCount'>,
+  pageContents: PageContent[],
+): ParsedDocument => {
+  let text = '';
+  const tables: DocumentTable[] = [];
+  const pages = pageContents.map((content, index): DocumentPage => {
+    if (index > 0) text += PAGE_SEPARATOR;
+    const pageStart = text.length;
+    const blocks = content.blocks.map((block, blockIndex): DocumentBlock => {
+      if (blockIndex > 0) text += '\n\n';
+      const blockStart = text.length;
+      const tableId = block.type === 'table' ? `T${tables.length + 1}` : undefined;
+      if (block.type === 'heading') text += `${'#'.repeat(block.level ?? 1)} `;
+      if (tableId) text += `[Table ${tableId}]\n`;
+      const spans = block.spans.map((span, spanIndex): TextSpan => {
+        if (spanIndex > 0) text += '\n';
+        const start = text.length;
+        text += span.text;
+        return { ...span, start, end: text.length };
+      });
+      if (tableId) tables.push({ id: tableId, page: index + 1, cells: block.cells ?? [], start: blockStart, end: text.length });
+      const { cells, ...rest } = block;
+      return { ...rest, tableId, spans, start: blockStart, end: text.length };
+    });
+    return { number: index + 1, blocks, ocr: Boolean(content.ocr), start: pageStart, end: text.length };
+  });
+
+  return { metadata: { ...metadata, pageCount: pages.length }, pages, tables, text };
+};
+
+// Splits plain text, such as OCR output, into paragraph blocks at blank lines
+export const blocksFromText = (text: string): BlockContent[] =>
+  text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.split('\n').map((line) => line.trimEnd()).filter(Boolean))
+    .filter((lines) => lines.length > 0)
+    .map((lines) => ({ type: 'paragraph', spans: lines.map((line) => ({ text: line })) }));
+
+export const getTable = (document: ParsedDocument, id: string): DocumentTable | undefined =>
+  document.tables.find((table) => table.id.toLowerCase() === id.trim().toLowerCase());
+
+export const getPageText = (document: ParsedDocument, page: DocumentPage): string =>
+  document.text.slice(page.start, page.end);
+
@@ -0,0 +1,259 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import type { BlockContent } from './document';
+import { findTableRuns } from './tables';
+
+export type LayoutItem = Pick<TextItem, 'str' | 'transform' | 'width' | 'hasEOL'>;
+
+// A run of text on one baseline with no wide gap in it. PDF coordinates: y grows upwards
+interface Fragment {
+  text: string;
+  x: number;
+  right: number;
+  y: number;
+  fontSize: number;
+}
+
+// The fragments of a line, which are table cells when the line is a table row
+interface Line extends Fragment {
+  cells: Fragment[];
+}
+
+// Gaps are measured in ems of the surrounding text
+const WORD_GAP_EMS = 0.15;
+// Wider than this between two items is a column gutter or a table cell boundary
+const FRAGMENT_GAP_EMS = 1;
+// Baselines closer than this share a line
+const SAME_LINE_EMS = 0.5;
+// More leading than this times the usual line spacing starts a new paragraph
+const PARAGRAPH_GAP_RATIO = 1.4;
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_CHARS = 120;
+
+// Column detection looks for a gutter in the middle half of the text area
+const GUTTER_SEARCH_START = 0.25;
+const GUTTER_SEARCH_END = 0.75;
+const GUTTER_STEPS = 100;
+// Titles, figures and footers may run across the gutter, most lines may not
+const MAX_SPANNING_SHARE = 0.2;
+const MIN_COLUMN_LINES = 5;
+// Prose fills its column; table cells, which also leave gutters, do not
+const MIN_COLUMN_FILL = 0.5;
+
+const isUpright = ({ transform }: LayoutItem) => Math.abs(transform[1]) < 1e-3 && Math.abs(transform[2]) < 1e-3;
+
+const fontSizeOf = ({ transform }: LayoutItem) => Math.max(Math.hypot(transform[2], transform[3]), 1);
+
+export const median = (values: number[]): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor((sorted.length - 1) / 2)];
+};
+
+const joinWithGap = (left: string, right: string, gap: number, fontSize: number, wideSeparator: string) => {
+  if (gap > FRAGMENT_GAP_EMS * fontSize) return `${left.trimEnd()}${wideSeparator}${right.trimStart()}`;
+  if (gap > WORD_GAP_EMS * fontSize && !/\s$/.test(left) && !/^\s/.test(right)) return `${left} ${right}`;
+  return left + right;
+};
+
+// Groups items in content-stream order, which pdf.js keeps, into fragments
+const toFragments = (items: LayoutItem[]): Fragment[] => {
+  const fragments: Fragment[] = [];
+  let current: Fragment | null = null;
+  let endOfLine = false;
+
+  for (const item of items) {
+    if (!item.str) {
+      endOfLine ||= item.hasEOL;
+      continue;
+    }
+    const fontSize = fontSizeOf(item);
+    const x = item.transform[4];
+    const y = item.transform[5];
+    const gap = current ? x - current.right : 0;
+    const continues =
+      current &&
+      !endOfLine &&
+      Math.abs(y - current.y) < SAME_LINE_EMS * Math.min(fontSize, current.fontSize) &&
+      gap > -fontSize &&
+      gap <= FRAGMENT_GAP_EMS * fontSize;
+
+    if (continues) {
+      current.text = joinWithGap(current.text, item.str, gap, fontSize, ' ');
+      current.right = Math.max(current.right, x + item.width);
+      current.fontSize = Math.max(current.fontSize, fontSize);
+    } else {
+      current = { text: item.str, x, right: x + item.width, y, fontSize };
+      fragments.push(current);
+    }
+    endOfLine = item.hasEOL;
+  }
+
+  return fragments.filter((fragment) => fragment.text.trim());
+};
+
+const readingOrder = (a: Fragment, b: Fragment) =>
+  Math.abs(a.y - b.y) < SAME_LINE_EMS * Math.min(a.fontSize, b.fontSize) ? a.x - b.x : b.y - a.y;
+
+/**
+ * Finds the x of the gap between two text columns, or undefined for a single
+ * column. The gutter is where the fewest fragments cross, provided enough
+ * prose sits on either side of it.
+ */
+const findGutter = (fragments: Fragment[]): number | undefined => {
+  if (fragments.length < MIN_COLUMN_LINES * 2) return undefined;
+  const left = Math.min(...fragments.map((fragment) => fragment.x));
+  const right = Math.max(...fragments.map((fragment) => fragment.right));
+  const width = right - left;
+
+  let best: { x: number; crossing: number } | undefined;
+  for (let step = 0; step <= GUTTER_STEPS; step++) {
+    const x = left + width * (GUTTER_SEARCH_START + ((GUTTER_SEARCH_END - GUTTER_SEARCH_START) * step) / GUTTER_STEPS);
+    const crossing = fragments.filter((fragment) => fragment.x < x && fragment.right > x).length;
+    if (!best || crossing < best.crossing) best = { x, crossing };
+  }
+  if (!best || best.crossing > fragments.length * MAX_SPANNING_SHARE) return undefined;
+
+  const leftColumn = fragments.filter((fragment) => fragment.right <= best.x);
+  const rightColumn = fragments.filter((fragment) => fragment.x >= best.x);
+  const isProse = (column: Fragment[]) => {
+    if (column.length < MIN_COLUMN_LINES) return false;
+    const columnLeft = Math.min(...column.map((fragment) => fragment.x));
+    const columnWidth = Math.max(...column.map((fragment) => fragment.right)) - columnLeft;
+    const fill = column.reduce((sum, fragment) => sum + (fragment.right - fragment.x), 0) / column.length;
+    return fill >= columnWidth * MIN_COLUMN_FILL;
+  };
+  return isProse(leftColumn) && isProse(rightColumn) ? best.x : undefined;
+};
+
+/**
+ * Splits the page into sections read one after the other: with two columns,
+ * the left column then the right one, restarting below anything that spans
+ * both, such as a title or a full-width figure caption.
+ */
+const toSections = (fragments: Fragment[]): Fragment[][] => {
+  const sorted = [...fragments].sort(readingOrder);
+  const gutter = findGutter(sorted);
+  if (gutter === undefined) return [sorted];
+
+  const sections: Fragment[][] = [];
+  let leftColumn: Fragment[] = [];
+  let rightColumn: Fragment[] = [];
+  const flush = () => {
+    sections.push(leftColumn, rightColumn);
+    leftColumn = [];
+    rightColumn = [];
+  };
+  for (const fragment of sorted) {
+    if (fragment.right <= gutter) leftColumn.push(fragment);
+    else if (fragment.x >= gutter) rightColumn.push(fragment);
+    else {
+      flush();
+      sections.push([fragment]);
+    }
+  }
+  flush();
+  return sections.filter((section) => section.length > 0);
+};
+
+// Merges the fragments of a section that share a baseline, keeping wide gaps as tabs so table rows stay aligned
+const toLines = (section: Fragment[]): Line[] => {
+  const lines: Line[] = [];
+  for (const fragment of section) {
+    const last = lines[lines.length - 1];
+    if (last && Math.abs(fragment.y - last.y) < SAME_LINE_EMS * Math.min(fragment.fontSize, last.fontSize)) {
+      last.text = joinWithGap(last.text, fragment.text, fragment.x - last.right, fragment.fontSize, '\t');
+      last.right = Math.max(last.right, fragment.right);
+      last.fontSize = Math.max(last.fontSize, fragment.fontSize);
+      last.cells.push(fragment);
+    } else {
+      lines.push({ ...fragment, cells: [fragment] });
+    }
+  }
+  return lines;
+};
+
+// The size most of the page's characters are set in
+const bodyFontSize = (lines: Fragment[]): number => {
+  const characters = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    characters.set(size, (characters.get(size) ?? 0) + line.text.length);
+  }
+  return [...characters.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+};
+
+const headingLevel = (fontSize: number, bodySize: number) => {
+  const ratio = fontSize / bodySize;
+  if (ratio >= 1.6) return 1;
+  if (ratio >= 1.3) return 2;
+  return 3;
+};
+
+/**
+ * Rebuilds the reading order of one page from the position and size of its
+ * text items, as paragraphs of lines. Text set noticeably larger than the
+ * body becomes a heading, and rows of cells aligned in columns become a
+ * table. Wide gaps within a line, as between table cells, become tabs.
+ */
+export const extractPageBlocks = (items: LayoutItem[]): BlockContent[] => {
+  const upright = items.filter(isUpright);
+  // Sideways text, such as a margin stamp, would break up the lines it crosses
+  const sideways = items.filter((item) => !isUpright(item)).map((item) => item.str).join(' ').trim();
+
+  const sections = toSections(toFragments(upright)).map(toLines);
+  const bodySize = bodyFontSize(sections.flat());
+  const leading =
+    median(
+      sections.flatMap((lines) =>
+        lines.slice(1).map((line, i) => lines[i].y - line.y).filter((gap) => gap > 0),
+      ),
+    ) ?? bodySize * 1.2;
+
+  const blocks: BlockContent[] = [];
+  const isHeading = (line: Fragment) =>
+    line.fontSize >= bodySize * HEADING_SIZE_RATIO && line.text.length <= MAX_HEADING_CHARS && /\p{L}/u.test(line.text);
+
+  for (const lines of sections) {
+    const tables = findTableRuns(lines, leading);
+    let previous: { line: Line; heading: boolean } | null = null;
+    for (let index = 0; index < lines.length; index++) {
+      const table = tables.find((run) => run.start === index);
+      if (table) {
+        blocks.push({
+          type: 'table',
+          spans: table.cells.map((cells, row) => ({ text: cells.join('\t'), fontSize: lines[table.start + row].fontSize })),
+          cells: table.cells,
+        });
+        index = table.end - 1;
+        previous = null;
+        continue;
+      }
+
+      const line = lines[index];
+      const heading = isHeading(line);
+      const text = line.text.trim();
+      const startsBlock =
+        !previous ||
+        heading !== previous.heading ||
+        Math.abs(line.fontSize - previous.line.fontSize) > bodySize * 0.1 ||
+        previous.line.y - line.y > leading * PARAGRAPH_GAP_RATIO;
+
+      if (startsBlock) {
+        blocks.push(
+          heading
+            ? { type: 'heading', level: headingLevel(line.fontSize, bodySize), spans: [{ text, fontSize: line.fontSize }] }
+            : { type: 'paragraph', spans: [{ text, fontSize: line.fontSize }] },
+        );
+      } else if (heading) {
+        // A heading that wraps is still one heading
+        blocks[blocks.length - 1].spans[0].text += ` ${text}`;
+      } else {
+        blocks[blocks.length - 1].spans.push({ text, fontSize: line.fontSize });
+      }
+      previous = { line, heading };
+    }
+  }
+
+  if (sideways) blocks.push({ type: 'paragraph', spans: [{ text: sideways }] });
+  return blocks;
+};
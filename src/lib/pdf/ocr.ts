@@ -0,0 +1,79 @@
+import { createWorker } from 'tesseract.js';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+// The LSTM-only build with SIMD, which every current browser supports; the default engine needs nothing more
+import coreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+// Pages with less native text than this are treated as scans; scanners often stamp a page number or file name
+export const MIN_NATIVE_TEXT_CHARS = 16;
+
+// pdf.js renders at 72 dpi at scale 1, Tesseract reads best at around 300 dpi
+const RENDER_SCALE = 300 / 72;
+// Browsers refuse canvases much larger than this, and oversized pages gain nothing from it
+const MAX_CANVAS_PIXELS = 16_000_000;
+const OCR_LANGUAGE = 'eng';
+
+export interface OcrReader {
+  recognize: (page: PDFPageProxy) => Promise<string>;
+  terminate: () => Promise<void>;
+}
+
+const renderPage = async (page: PDFPageProxy): Promise<HTMLCanvasElement> => {
+  const { width, height } = page.getViewport({ scale: 1 });
+  const scale = Math.min(RENDER_SCALE, Math.sqrt(MAX_CANVAS_PIXELS / (width * height)));
+  const viewport = page.getViewport({ scale });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  return canvas;
+};
+
+// Left to itself, tesseract.js fetches its worker, core and language data from cdn.jsdelivr.net
+const loadLanguageData = async (): Promise<Uint8Array> => {
+  const response = await fetch(englishDataUrl);
+  if (!response.ok) throw new Error(`Could not load the OCR language data (HTTP ${response.status})`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Tesseract compiled to WASM, running in its own Web Worker so the page
+ * stays responsive. The worker script, the WASM core and the English
+ * language data are all served from our own origin, like the embedding
+ * model: no CDN is contacted. They are hashed build assets, so the browser's
+ * HTTP cache keeps them between visits. onPageProgress reports how far the current page is, from 0 to 1.
+ */
+export const createOcrReader = async (onPageProgress: (progress: number) => void): Promise<OcrReader> => {
+  // Handing the data over directly leaves langPath, a directory tesseract.js appends file names to, unused
+  const language = { code: OCR_LANGUAGE, data: await loadLanguageData() };
+  const worker = await createWorker([language], undefined, {
+    workerPath: workerUrl,
+    corePath: coreUrl,
+    // A blob: worker could not resolve our same-origin asset paths
+    workerBlobURL: false,
+    // The HTTP cache already holds the language data; an IndexedDB copy would only duplicate it
+    cacheMethod: 'none',
+    logger: (message) => {
+      if (message.status === 'recognizing text') onPageProgress(message.progress);
+    },
+  });
+
+  return {
+    recognize: async (page) => {
+      const canvas = await renderPage(page);
+      try {
+        const { data } = await worker.recognize(canvas);
+        return data.text.trim();
+      } finally {
+        // Release the bitmap now rather than at garbage collection; scans are large
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    },
+    terminate: async () => {
+      await worker.terminate();
+    },
+  };
+};
@@ -0,0 +1,108 @@
+import { median } from './layout';
+
+// A piece of text on a row, with its horizontal extent in PDF points
+export interface TableCellBox {
+  text: string;
+  x: number;
+  right: number;
+}
+
+// One line of text split at wide gaps; y is the baseline, growing upwards
+export interface TableRowBox {
+  cells: TableCellBox[];
+  y: number;
+}
+
+export interface TableRun {
+  // Indices into the rows passed in, end exclusive
+  start: number;
+  end: number;
+  // The first row is taken as the header
+  cells: string[][];
+}
+
+const MIN_TABLE_ROWS = 3;
+const MIN_TABLE_COLUMNS = 2;
+// Rows further apart than this times the usual line spacing belong to different tables
+const MAX_ROW_GAP_RATIO = 2.5;
+// Cells are short; two lines of prose that happen to have a wide gap are not a table
+const MAX_MEDIAN_CELL_CHARS = 40;
+
+// Negative for a cell beside the band, by the width of the gap, so the largest overlap is also the nearest band
+const overlap = (cell: TableCellBox, band: { x: number; right: number }) =>
+  Math.min(cell.right, band.right) - Math.max(cell.x, band.x);
+
+/**
+ * Lines the cells of every row up into columns. The columns come from the
+ * rows with the most common number of cells, as headers that span columns and
+ * blank cells make the others unreliable; each cell then goes to the column
+ * it overlaps most, or the nearest one.
+ */
+const toColumns = (rows: TableRowBox[]): string[][] => {
+  const counts = new Map<number, number>();
+  for (const row of rows) counts.set(row.cells.length, (counts.get(row.cells.length) ?? 0) + 1);
+  const columnCount = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0][0];
+
+  const bands = Array.from({ length: columnCount }, (_, column) => {
+    const cells = rows.filter((row) => row.cells.length === columnCount).map((row) => row.cells[column]);
+    return { x: Math.min(...cells.map((cell) => cell.x)), right: Math.max(...cells.map((cell) => cell.right)) };
+  });
+
+  return rows.map((row) => {
+    const cells: string[] = bands.map(() => '');
+    for (const cell of row.cells) {
+      const column = bands.reduce((best, band, index) => (overlap(cell, band) > overlap(cell, bands[best]) ? index : best), 0);
+      cells[column] = cells[column] ? `${cells[column]} ${cell.text.trim()}` : cell.text.trim();
+    }
+    return cells;
+  });
+};
+
+/**
+ * Finds the tables among the rows of one column of a page: at least three
+ * consecutive, closely spaced rows that each split into two or more short
+ * cells at wide gaps.
+ */
+export const findTableRuns = (rows: TableRowBox[], leading: number): TableRun[] => {
+  const runs: TableRun[] = [];
+  let start = 0;
+  while (start < rows.length) {
+    let end = start;
+    while (
+      end < rows.length &&
+      rows[end].cells.length >= MIN_TABLE_COLUMNS &&
+      (end === start || rows[end - 1].y - rows[end].y <= leading * MAX_ROW_GAP_RATIO)
+    ) {
+      end++;
+    }
+
+    const candidate = rows.slice(start, end);
+    const cellLengths = candidate.flatMap((row) => row.cells.map((cell) => cell.text.trim().length));
+    if (candidate.length >= MIN_TABLE_ROWS && median(cellLengths) <= MAX_MEDIAN_CELL_CHARS) {
+      runs.push({ start, end, cells: toColumns(candidate) });
+    }
+    start = Math.max(end, start + 1);
+  }
+  return runs;
+};
+
+/**
+ * Reads a number out of a financial table cell: thousands separators,
+ * currency signs, percentages and accounting negatives like (1,200) are all
+ * understood. Returns undefined for anything else, including dashes.
+ */
+export const parseCellNumber = (cell: string): number | undefined => {
+  let text = cell.trim().replace(/[\s,$€£¥%]/g, '');
+  const negative = /^\(.*\)$/.test(text) || /^[-−]/.test(text);
+  text = text.replace(/^\((.*)\)$/, '$1').replace(/^[-−]/, '');
+  // 5, 5.25, .25 and 5. all count
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(text)) return undefined;
+  const value = Number(text);
+  return negative ? -value : value;
+};
+
+const csvField = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// RFC 4180, which is what spreadsheets expect
+export const tableToCsv = (cells: string[][]): string =>
+  cells.map((row) => row.map(csvField).join(',')).join('\r\n');
@@ -0,0 +1,74 @@
+import type { DocumentChunk } from './chunker';
+
+export interface ScoredChunk {
+  chunk: DocumentChunk;
+  score: number;
+}
+
+export interface BM25Index {
+  search: (query: string, limit?: number) => ScoredChunk[];
+}
+
+// Standard Okapi BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our',
+  'so', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+  'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you',
+  'your', 'about', 'document', 'pdf', 'please', 'tell',
+]);
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((term) => !STOPWORDS.has(term));
+
+export const createBM25Index = (chunks: DocumentChunk[]): BM25Index => {
+  const termFrequencies = chunks.map((chunk) => {
+    const frequencies = new Map<string, number>();
+    for (const term of tokenize(chunk.text)) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    }
+    return frequencies;
+  });
+  const lengths = chunks.map((_, i) => {
+    let length = 0;
+    termFrequencies[i].forEach((count) => { length += count; });
+    return length;
+  });
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(chunks.length, 1);
+
+  const documentFrequencies = new Map<string, number>();
+  for (const frequencies of termFrequencies) {
+    for (const term of frequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    }
+  }
+
+  const idf = (term: string): number => {
+    const df = documentFrequencies.get(term) ?? 0;
+    return Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+  };
+
+  const search = (query: string, limit = 10): ScoredChunk[] => {
+    const terms = [...new Set(tokenize(query))].filter((term) => documentFrequencies.has(term));
+    if (terms.length === 0) return [];
+
+    const results: ScoredChunk[] = [];
+    chunks.forEach((chunk, i) => {
+      let score = 0;
+      for (const term of terms) {
+        const tf = termFrequencies[i].get(term);
+        if (!tf) continue;
+        const norm = K1 * (1 - B + B * (lengths[i] / (averageLength || 1)));
+        score += idf(term) * ((tf * (K1 + 1)) / (tf + norm));
+      }
+      if (score > 0) results.push({ chunk, score });
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  };
+
+  return { search };
+};
@@ -0,0 +1,76 @@
+import { getPageText, type ParsedDocument } from '@/lib/pdf/document';
+
+export interface DocumentChunk {
+  id: number;
+  page: number;
+  text: string;
+  // Character offsets into ParsedDocument.text
+  start: number;
+  end: number;
+}
+
+export interface ChunkOptions {
+  chunkSize?: number;
+  overlap?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 1200;
+const DEFAULT_OVERLAP = 200;
+
+// Never shrink a chunk below this share of chunkSize when looking for a word boundary
+const MIN_BOUNDARY_RATIO = 0.6;
+
+// Prefer ending a chunk between paragraphs, then between lines, then between words
+const findBreak = (text: string, from: number, to: number): number => {
+  const minimum = from + Math.floor((to - from) * MIN_BOUNDARY_RATIO);
+  for (const boundary of ['\n\n', '\n']) {
+    const at = text.lastIndexOf(boundary, to - boundary.length);
+    if (at > minimum) return at;
+  }
+  for (let i = to; i > minimum; i--) {
+    if (/\s/.test(text[i])) return i;
+  }
+  return to;
+};
+
+/**
+ * Splits extracted PDF text into overlapping windows that never cross a page
+ * boundary, so every chunk can be attributed to exactly one page.
+ */
+export const chunkDocument = (document: ParsedDocument, options: ChunkOptions = {}): DocumentChunk[] => {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(chunkSize / 2));
+  const chunks: DocumentChunk[] = [];
+
+  for (const page of document.pages) {
+    const pageText = getPageText(document, page);
+    let start = 0;
+    while (start < pageText.length) {
+      let end = Math.min(start + chunkSize, pageText.length);
+      if (end < pageText.length) {
+        end = findBreak(pageText, start, end);
+      }
+
+      const raw = pageText.slice(start, end);
+      const leading = raw.length - raw.trimStart().length;
+      const content = raw.trim();
+      if (content) {
+        chunks.push({
+          id: chunks.length,
+          page: page.number,
+          text: content,
+          start: page.start + start + leading,
+          end: page.start + start + leading + content.length,
+        });
+      }
+
+      if (end >= pageText.length) break;
+      let next = Math.max(end - overlap, start + 1);
+      // Start the next window on a word rather than mid-token
+      while (next < end && !/\s/.test(pageText[next - 1])) next++;
+      start = next;
+    }
+  }
+
+  return chunks;
+};
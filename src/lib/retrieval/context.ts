@@ -0,0 +1,121 @@
+import type { DocumentTable, ParsedDocument } from '@/lib/pdf/document';
+import { chunkDocument, type DocumentChunk } from './chunker';
+import { createBM25Index, type ScoredChunk } from './bm25';
+
+export interface DocumentRetriever {
+  chunks: DocumentChunk[];
+  pageCount: number;
+  tables: DocumentTable[];
+  search: (query: string, limit?: number) => ScoredChunk[];
+}
+
+// Same overall excerpt size the prompt used before retrieval existed
+export const DEFAULT_CONTEXT_CHARS = 12000;
+
+const CANDIDATE_LIMIT = 40;
+// Reciprocal rank fusion constant from the original RRF paper
+const RRF_K = 60;
+
+// "page 4", "p. 4", "pages 3-5", "pp. 10 to 12", "pages 2 and 7"
+const PAGE_REFERENCE = /\b(?:pages?|pp?\.)\s*(\d+)(?:\s*(-|–|to|through|and|,)\s*(\d+))?/gi;
+// "T3", "table T3", "table 3"
+const TABLE_REFERENCE = /\bT(\d+)\b|\btable\s+(\d+)\b/gi;
+
+interface ContextOptions {
+  maxChars?: number;
+  // Ranked results from the embeddings index, when one is available
+  semanticResults?: ScoredChunk[];
+}
+
+export const createDocumentRetriever = (document: ParsedDocument): DocumentRetriever => {
+  const chunks = chunkDocument(document);
+  const index = createBM25Index(chunks);
+  return { chunks, pageCount: document.metadata.pageCount, tables: document.tables, search: index.search };
+};
+
+// The pages a question names explicitly, in order and within the document
+export const findPageReferences = (query: string, pageCount: number): number[] => {
+  const pages = new Set<number>();
+  for (const [, first, separator, second] of query.matchAll(PAGE_REFERENCE)) {
+    const from = Number(first);
+    const to = second === undefined ? from : Number(second);
+    if (separator === 'and' || separator === ',') {
+      pages.add(from);
+      pages.add(to);
+      continue;
+    }
+    for (let page = Math.max(Math.min(from, to), 1); page <= Math.min(Math.max(from, to), pageCount); page++) {
+      pages.add(page);
+    }
+  }
+  return [...pages].filter((page) => page >= 1 && page <= pageCount).sort((a, b) => a - b);
+};
+
+// The detected tables a question names by ID
+export const findTableReferences = (query: string, tables: DocumentTable[]): DocumentTable[] => {
+  const ids = new Set([...query.matchAll(TABLE_REFERENCE)].map(([, id, number]) => `T${id ?? number}`));
+  return tables.filter((table) => ids.has(table.id));
+};
+
+/**
+ * Merges several rankings with reciprocal rank fusion, which only looks at
+ * positions and so copes with BM25 and cosine scores living on different scales.
+ */
+export const fuseRankings = (...rankings: ScoredChunk[][]): DocumentChunk[] => {
+  const fused = new Map<number, { chunk: DocumentChunk; score: number }>();
+  for (const ranking of rankings) {
+    ranking.forEach(({ chunk }, rank) => {
+      const entry = fused.get(chunk.id) ?? { chunk, score: 0 };
+      entry.score += 1 / (RRF_K + rank + 1);
+      fused.set(chunk.id, entry);
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score).map((entry) => entry.chunk);
+};
+
+/**
+ * Picks the best-ranked chunks that fit in maxChars and lays them out in
+ * document order, labelled with their page. Overlap between neighbouring
+ * chunks is removed. Pages and tables the question names ("what does page 4
+ * say?", "chart T2") come first. When nothing matches the query (e.g. "summarize this"), the
+ * opening of the document is used instead.
+ */
+export const buildDocumentContext = (
+  retriever: DocumentRetriever,
+  query: string,
+  { maxChars = DEFAULT_CONTEXT_CHARS, semanticResults = [] }: ContextOptions = {},
+): string => {
+  const ranked = fuseRankings(retriever.search(query, CANDIDATE_LIMIT), semanticResults);
+  const requestedPages = findPageReferences(query, retriever.pageCount);
+  const requestedTables = findTableReferences(query, retriever.tables);
+  const requested = retriever.chunks.filter(
+    (chunk) =>
+      requestedPages.includes(chunk.page) ||
+      requestedTables.some((table) => chunk.start < table.end && chunk.end > table.start),
+  );
+  const candidates = [...new Set([...requested, ...(ranked.length > 0 ? ranked : retriever.chunks)])];
+
+  const selected: DocumentChunk[] = [];
+  let used = 0;
+  for (const chunk of candidates) {
+    if (used + chunk.text.length > maxChars) continue;
+    selected.push(chunk);
+    used += chunk.text.length;
+  }
+  selected.sort((a, b) => a.start - b.start);
+
+  const sections: string[] = [];
+  let previous: DocumentChunk | null = null;
+  for (const chunk of selected) {
+    const contiguous = previous && previous.page === chunk.page && previous.end >= chunk.start;
+    const text = contiguous ? chunk.text.slice(previous.end - chunk.start) : chunk.text;
+    if (contiguous) {
+      sections[sections.length - 1] += text;
+    } else {
+      sections.push(`[Page ${chunk.page}]\n${text}`);
+    }
+    previous = !previous || chunk.end > previous.end ? chunk : previous;
+  }
+
+  return sections.join('\n\n...\n\n');
+};
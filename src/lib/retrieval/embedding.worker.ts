@@ -0,0 +1,34 @@
+import { env, pipeline, type FeatureExtractionPipeline } from '@huggingface/transformers';
+import ortMjsUrl from 'onnxruntime-web/ort-wasm-simd-threaded.asyncify.mjs?url';
+import ortWasmUrl from 'onnxruntime-web/ort-wasm-simd-threaded.asyncify.wasm?url';
+import { LOCAL_EMBEDDING_MODEL, type EmbeddingWorkerRequest, type EmbeddingWorkerResponse } from './local-model';
+
+// Everything is served from our own origin: no model hub, no CDN
+env.allowRemoteModels = false;
+env.allowLocalModels = true;
+env.localModelPath = `${import.meta.env.BASE_URL}models/`;
+env.backends.onnx.wasm.wasmPaths = { mjs: ortMjsUrl, wasm: ortWasmUrl };
+// Threads need cross-origin isolation, which the app is not served with
+env.backends.onnx.wasm.numThreads = 1;
+
+let extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+const getExtractor = () => {
+  extractor ??= pipeline('feature-extraction', LOCAL_EMBEDDING_MODEL, { device: 'wasm', dtype: 'q8' }) as Promise<FeatureExtractionPipeline>;
+  return extractor;
+};
+
+self.onmessage = async (event: MessageEvent<EmbeddingWorkerRequest>) => {
+  const { id, texts } = event.data;
+  let response: EmbeddingWorkerResponse;
+  try {
+    const extract = await getExtractor();
+    const output = await extract(texts, { pooling: 'mean', normalize: true });
+    response = { id, vectors: output.tolist() };
+  } catch (error) {
+    // Let a later request retry loading, e.g. after the model files are deployed
+    extractor = null;
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
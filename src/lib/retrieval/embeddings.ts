@@ -0,0 +1,119 @@
+import { tokenize } from './bm25';
+
+export type EmbeddingKind = 'document' | 'query';
+
+export interface Embedder {
+  // Part of the cache key, so it must change whenever the vectors would
+  id: string;
+  embed: (texts: string[], kind: EmbeddingKind) => Promise<number[][]>;
+}
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+const GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+
+// Both APIs cap the number of inputs per request; stay well under either limit
+const BATCH_SIZE = 96;
+
+const inBatches = async (texts: string[], embedBatch: (batch: string[]) => Promise<number[][]>) => {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    vectors.push(...(await embedBatch(texts.slice(i, i + BATCH_SIZE))));
+  }
+  return vectors;
+};
+
+export const createOpenAIEmbedder = (apiKey: string): Embedder => ({
+  id: `openai:${OPENAI_EMBEDDING_MODEL}`,
+  embed: (texts) =>
+    inBatches(texts, async (batch) => {
+      const response = await fetch('https://api.openai.com/v1/embeddings', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model: OPENAI_EMBEDDING_MODEL, input: batch }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`OpenAI embeddings error (${response.status}): ${errorData.error?.message || response.statusText}`);
+      }
+
+      const data = await response.json();
+      return [...data.data]
+        .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+        .map((item: { embedding: number[] }) => item.embedding);
+    }),
+});
+
+export const createGeminiEmbedder = (apiKey: string): Embedder => {
+  const baseUrl = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_EMBEDDING_MODEL}`;
+
+  const request = async (method: string, body: unknown) => {
+    const response = await fetch(`${baseUrl}:${method}?key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(`Gemini embeddings error (${response.status}): ${errorData.error?.message || response.statusText}`);
+    }
+    return response.json();
+  };
+
+  return {
+    id: `gemini:${GEMINI_EMBEDDING_MODEL}`,
+    embed: async (texts, kind) => {
+      if (kind === 'query') {
+        const data = await request('embedContent', {
+          content: { parts: [{ text: texts[0] }] },
+          taskType: 'RETRIEVAL_QUERY',
+        });
+        return [data.embedding.values];
+      }
+
+      return inBatches(texts, async (batch) => {
+        const data = await request('batchEmbedContents', {
+          requests: batch.map((text) => ({
+            model: `models/${GEMINI_EMBEDDING_MODEL}`,
+            content: { parts: [{ text }] },
+            taskType: 'RETRIEVAL_DOCUMENT',
+          })),
+        });
+        return data.embeddings.map((embedding: { values: number[] }) => embedding.values);
+      });
+    },
+  };
+};
+
+const hashTerm = (term: string): number => {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Deterministic bag-of-words embedder based on feature hashing. It needs no
+ * network access, which makes it a drop-in fake for tests and offline work.
+ */
+export const createHashEmbedder = (dimensions = 256): Embedder => ({
+  id: `hash:${dimensions}`,
+  embed: async (texts) =>
+    texts.map((text) => {
+      const vector = new Array<number>(dimensions).fill(0);
+      for (const term of tokenize(text)) {
+        const hash = hashTerm(term);
+        vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+      }
+      return vector;
+    }),
+});
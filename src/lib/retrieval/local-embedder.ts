@@ -0,0 +1,55 @@
+import type { Embedder } from './embeddings';
+import { LOCAL_EMBEDDING_MODEL, type EmbeddingWorkerRequest, type EmbeddingWorkerResponse } from './local-model';
+
+// Small batches keep the worker responsive to query embeddings queued behind a document
+const BATCH_SIZE = 16;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (vectors: number[][]) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./embedding.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<EmbeddingWorkerResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if (event.data.error !== undefined) {
+      request.reject(new Error(`Local embedding model error: ${event.data.error}`));
+    } else {
+      request.resolve(event.data.vectors);
+    }
+  };
+  worker.onerror = (event) => {
+    pending.forEach((request) => request.reject(new Error(`Local embedding worker crashed: ${event.message}`)));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+const embedInWorker = (texts: string[]): Promise<number[][]> =>
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, texts } satisfies EmbeddingWorkerRequest);
+  });
+
+/**
+ * Sentence-transformer running on the CPU through ONNX Runtime's WASM backend
+ * in a Web Worker. No document text leaves the device. The worker and the
+ * loaded model are shared by every embedder instance.
+ */
+export const createLocalEmbedder = (): Embedder => ({
+  id: `local:${LOCAL_EMBEDDING_MODEL}`,
+  embed: async (texts) => {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      vectors.push(...(await embedInWorker(texts.slice(i, i + BATCH_SIZE))));
+    }
+    return vectors;
+  },
+});
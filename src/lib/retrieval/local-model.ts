@@ -0,0 +1,13 @@
+// Shared between the embedding worker and the page; served from public/models/ (see the README)
+export const LOCAL_EMBEDDING_MODEL = 'onnx-community/all-MiniLM-L6-v2-ONNX';
+
+export interface EmbeddingWorkerRequest {
+  id: number;
+  texts: string[];
+}
+
+export interface EmbeddingWorkerResponse {
+  id: number;
+  vectors?: number[][];
+  error?: string;
+}
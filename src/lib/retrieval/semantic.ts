@@ -0,0 +1,113 @@
+import type { DocumentChunk } from './chunker';
+import type { ScoredChunk } from './bm25';
+import type { Embedder } from './embeddings';
+import type { VectorStore } from './vector-store';
+
+export interface SemanticIndex {
+  search: (query: string, limit?: number) => Promise<ScoredChunk[]>;
+}
+
+interface SemanticIndexOptions {
+  chunks: DocumentChunk[];
+  documentHash: string;
+  embedder: Embedder;
+  store: VectorStore;
+}
+
+// Below this many chunks a full scan is cheaper than maintaining buckets
+const BRUTE_FORCE_THRESHOLD = 2000;
+// Random-hyperplane LSH: 12 bits per table, 4 tables
+const HASH_BITS = 12;
+const HASH_TABLES = 4;
+
+const normalize = (vector: ArrayLike<number>): Float32Array => {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm) || 1;
+  return Float32Array.from(vector, (value) => value / norm);
+};
+
+// Vectors are normalized up front, so the dot product is the cosine similarity
+export const cosineSimilarity = (a: Float32Array, b: Float32Array): number => {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+};
+
+// Seeded so bucket assignments are stable between sessions and test runs
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296 - 0.5;
+};
+
+const createHasher = (dimensions: number, table: number) => {
+  const random = createRandom(table + 1);
+  const planes = Array.from({ length: HASH_BITS }, () => Float32Array.from({ length: dimensions }, random));
+  return (vector: Float32Array) =>
+    planes.reduce((bucket, plane, bit) => (cosineSimilarity(vector, plane) >= 0 ? bucket | (1 << bit) : bucket), 0);
+};
+
+/**
+ * Cosine-similarity search over chunk vectors. Large documents are bucketed
+ * with locality-sensitive hashing; small documents, and queries whose buckets
+ * yield too few candidates, fall back to a brute-force scan.
+ */
+export const createVectorSearch = (chunks: DocumentChunk[], vectors: Float32Array[]) => {
+  const useBuckets = chunks.length > BRUTE_FORCE_THRESHOLD && vectors.length > 0;
+  const hashers = useBuckets ? Array.from({ length: HASH_TABLES }, (_, table) => createHasher(vectors[0].length, table)) : [];
+  const tables = hashers.map((hash) => {
+    const buckets = new Map<number, number[]>();
+    vectors.forEach((vector, i) => {
+      const bucket = hash(vector);
+      if (!buckets.has(bucket)) buckets.set(bucket, []);
+      buckets.get(bucket).push(i);
+    });
+    return buckets;
+  });
+
+  const score = (query: Float32Array, indices: Iterable<number>): ScoredChunk[] =>
+    Array.from(indices, (i) => ({ chunk: chunks[i], score: cosineSimilarity(query, vectors[i]) }));
+
+  return (queryVector: number[], limit: number): ScoredChunk[] => {
+    const query = normalize(queryVector);
+    let results: ScoredChunk[] | null = null;
+
+    if (useBuckets) {
+      const candidates = new Set<number>();
+      hashers.forEach((hash, table) => {
+        tables[table].get(hash(query))?.forEach((i) => candidates.add(i));
+      });
+      if (candidates.size >= limit) results = score(query, candidates);
+    }
+
+    results ??= score(query, vectors.keys());
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  };
+};
+
+/**
+ * Embeds every chunk once per document and embedder, caching the vectors in
+ * the given store keyed by the document hash.
+ */
+export const createSemanticIndex = async ({ chunks, documentHash, embedder, store }: SemanticIndexOptions): Promise<SemanticIndex> => {
+  const key = `${embedder.id}:${documentHash}`;
+  let stored = await store.get(key);
+
+  // A chunking change invalidates the cached vectors
+  if (!stored || stored.chunkCount !== chunks.length) {
+    const embedded = await embedder.embed(chunks.map((chunk) => chunk.text), 'document');
+    stored = { chunkCount: chunks.length, vectors: embedded.map(normalize) };
+    await store.put(key, stored);
+  }
+
+  const search = createVectorSearch(chunks, stored.vectors);
+
+  return {
+    search: async (query, limit = 10) => {
+      const [queryVector] = await embedder.embed([query], 'query');
+      return search(queryVector, limit);
+    },
+  };
+};
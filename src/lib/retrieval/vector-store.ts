@@ -0,0 +1,66 @@
+export interface StoredVectors {
+  chunkCount: number;
+  vectors: Float32Array[];
+}
+
+export interface VectorStore {
+  get: (key: string) => Promise<StoredVectors | undefined>;
+  put: (key: string, value: StoredVectors) => Promise<void>;
+}
+
+const DB_NAME = 'wave-reader';
+const DB_VERSION = 1;
+const STORE_NAME = 'embeddings';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDBVectorStore = (): VectorStore => {
+  let database: Promise<IDBDatabase> | null = null;
+  const getDatabase = () => (database ??= openDatabase());
+
+  return {
+    get: async (key) => {
+      const db = await getDatabase();
+      return runRequest(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key));
+    },
+    put: async (key, value) => {
+      const db = await getDatabase();
+      await runRequest(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(value, key));
+    },
+  };
+};
+
+export const createMemoryVectorStore = (): VectorStore => {
+  const entries = new Map<string, StoredVectors>();
+  return {
+    get: async (key) => entries.get(key),
+    put: async (key, value) => {
+      entries.set(key, value);
+    },
+  };
+};
+
+// Private browsing modes and some test environments have no IndexedDB
+export const createVectorStore = (): VectorStore =>
+  typeof indexedDB === 'undefined' ? createMemoryVectorStore() : createIndexedDBVectorStore();
+
+export const hashText = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
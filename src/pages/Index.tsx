@@ -1,16 +1,18 @@
 import { useState } from 'react';
 import { DragDropZone } from '@/components/DragDropZone';
 import { ChatInterface } from '@/components/ChatInterface';
+import { TablesPanel } from '@/components/TablesPanel';
+import type { ParsedDocument } from '@/lib/pdf/document';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Waves, FileText } from 'lucide-react';
 import oceanWaves from '@/assets/ocean-waves.jpg';
 
 const Index = () => {
-  const [uploadedFile, setUploadedFile] = useState<{ file: File; text: string } | null>(null);
+  const [uploadedFile, setUploadedFile] = useState<{ file: File; document: ParsedDocument } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
 
-  const handleFileUpload = (file: File, text: string) => {
-    setUploadedFile({ file, text });
+  const handleFileUpload = (file: File, document: ParsedDocument) => {
+    setUploadedFile({ file, document });
     setIsProcessing(false);
   };
 
@@ -33,19 +35,19 @@ const Index = () => {
               <span>New Document</span>
             </Button>
             
-            <div className="flex items-center space-x-2">
-              <FileText className="w-5 h-5 text-primary" />
-              <span className="font-medium truncate max-w-xs">
-                {uploadedFile.file.name}
-              </span>
+            <div className="flex items-center space-x-4">
+              <TablesPanel tables={uploadedFile.document.tables} fileName={uploadedFile.file.name} />
+              <div className="flex items-center space-x-2">
+                <FileText className="w-5 h-5 text-primary" />
+                <span className="font-medium truncate max-w-xs">
+                  {uploadedFile.file.name}
+                </span>
+              </div>
             </div>
           </div>
           
           <div className="h-[calc(100vh-120px)]">
-            <ChatInterface 
-              pdfText={uploadedFile.text} 
-              fileName={uploadedFile.file.name}
-            />
+            <ChatInterface parsedDocument={uploadedFile.document} />
           </div>
         </div>
       </div>